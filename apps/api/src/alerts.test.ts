@@ -0,0 +1,184 @@
+import type { AlertEvent, AlertTrigger, BubbleNode } from "@memebubbles/shared";
+import { describe, expect, it } from "vitest";
+import { createAlertEngine, registerAlertSink } from "./alerts.js";
+import { createMemoryStorage } from "./storage.js";
+
+function node(id: string, rank: number, score = 100): BubbleNode {
+   return {
+      id,
+      rank,
+      chainId: "solana",
+      tokenAddress: id,
+      label: id,
+      score,
+      enrichment: { status: "missing" },
+      url: `https://dexscreener.com/solana/${id}`,
+      links: [],
+      provenance: [],
+   };
+}
+
+function engineWith(trigger: AlertTrigger, cooldownMinutes = 0) {
+   const engine = createAlertEngine(createMemoryStorage(), {
+      onDispatchError: () => {},
+   });
+   engine.createRule({
+      name: trigger.kind,
+      enabled: true,
+      modes: ["top"],
+      trigger,
+      conditions: {},
+      cooldownMinutes,
+      sinks: [],
+   });
+   return engine;
+}
+
+function fired(events: AlertEvent[]) {
+   return events.map((e) => e.node.id);
+}
+
+describe("alert triggers", () => {
+   it("records a baseline on the first refresh", () => {
+      const engine = engineWith({ kind: "newToken" });
+      expect(
+         engine.evaluate({ mode: "top", updatedAtMs: 0, data: [node("a", 1)] }),
+      ).toEqual([]);
+
+      const events = engine.evaluate({
+         mode: "top",
+         updatedAtMs: 1000,
+         data: [node("a", 1), node("b", 2)],
+      });
+      expect(fired(events)).toEqual(["b"]);
+   });
+
+   it("fires enteredTop only when a token crosses the rank", () => {
+      const engine = engineWith({ kind: "enteredTop", rank: 2 });
+      engine.evaluate({
+         mode: "top",
+         updatedAtMs: 0,
+         data: [node("a", 1), node("b", 2), node("c", 3)],
+      });
+
+      const events = engine.evaluate({
+         mode: "top",
+         updatedAtMs: 1000,
+         data: [node("c", 1), node("a", 2), node("b", 3)],
+      });
+      expect(fired(events)).toEqual(["c"]);
+   });
+
+   it("fires scoreJump when the score rises by at least minDelta", () => {
+      const engine = engineWith({ kind: "scoreJump", minDelta: 50 });
+      engine.evaluate({
+         mode: "top",
+         updatedAtMs: 0,
+         data: [node("a", 1, 100), node("b", 2, 100)],
+      });
+
+      const events = engine.evaluate({
+         mode: "top",
+         updatedAtMs: 1000,
+         data: [node("a", 1, 150), node("b", 2, 149)],
+      });
+      expect(fired(events)).toEqual(["a"]);
+      expect(events[0]?.previous).toEqual({ rank: 1, score: 100 });
+   });
+
+   it("ignores other modes", () => {
+      const engine = engineWith({ kind: "match" });
+      expect(
+         engine.evaluate({
+            mode: "recent",
+            updatedAtMs: 0,
+            data: [node("a", 1)],
+         }),
+      ).toEqual([]);
+   });
+});
+
+describe("alert cooldown", () => {
+   it("fires once per token within the cooldown", () => {
+      const engine = engineWith({ kind: "match" }, 1);
+      const refresh = (updatedAtMs: number) =>
+         fired(
+            engine.evaluate({
+               mode: "top",
+               updatedAtMs,
+               data: [node("a", 1)],
+            }),
+         );
+
+      expect(refresh(0)).toEqual(["a"]);
+      expect(refresh(59_999)).toEqual([]);
+      expect(refresh(60_000)).toEqual(["a"]);
+   });
+
+   it("restores the cooldown from stored events", () => {
+      const storage = createMemoryStorage();
+      const first = createAlertEngine(storage, { onDispatchError: () => {} });
+      const rule = first.createRule({
+         name: "match",
+         enabled: true,
+         modes: ["top"],
+         trigger: { kind: "match" },
+         conditions: {},
+         cooldownMinutes: 1,
+         sinks: [],
+      });
+      const firedAtMs = Date.parse("2026-01-01T00:00:00Z");
+      first.evaluate({
+         mode: "top",
+         updatedAtMs: firedAtMs,
+         data: [node("a", 1)],
+      });
+
+      const restarted = createAlertEngine(storage, {
+         onDispatchError: () => {},
+      });
+      expect(
+         restarted.evaluate({
+            mode: "top",
+            updatedAtMs: firedAtMs + 30_000,
+            data: [node("a", 1)],
+         }),
+      ).toEqual([]);
+      expect(restarted.events({ ruleId: rule.id, limit: 10 })).toHaveLength(1);
+   });
+});
+
+describe("alert dispatch", () => {
+   it("sends events to the rule's sinks and reports failures", async () => {
+      const sent: string[] = [];
+      registerAlertSink({
+         id: "test-ok",
+         send: async (event) => {
+            sent.push(event.node.id);
+         },
+      });
+      registerAlertSink({
+         id: "test-fail",
+         send: () => Promise.reject(new Error("boom")),
+      });
+
+      const errors: string[] = [];
+      const engine = createAlertEngine(createMemoryStorage(), {
+         onDispatchError: (_err, sinkId) => errors.push(sinkId),
+      });
+      engine.createRule({
+         name: "match",
+         enabled: true,
+         modes: ["top"],
+         trigger: { kind: "match" },
+         conditions: {},
+         cooldownMinutes: 0,
+         sinks: ["test-ok", "test-fail", "unknown"],
+      });
+      engine.evaluate({ mode: "top", updatedAtMs: 0, data: [node("a", 1)] });
+      await new Promise((r) => setImmediate(r));
+
+      expect(sent).toEqual(["a"]);
+      expect(errors).toEqual(["test-fail"]);
+   });
+});
@@ -0,0 +1,246 @@
+import { randomUUID } from "node:crypto";
+import type {
+   AlertEvent,
+   AlertRule,
+   BubbleMode,
+   BubbleNode,
+} from "@memebubbles/shared";
+import type { RefreshEvent } from "./events.js";
+import { applyBubbleFilters } from "./filters.js";
+import { tokenIdentityKey } from "./keys.js";
+import type { Storage } from "./storage.js";
+
+const RULES_COLLECTION = "alert-rules";
+const EVENTS_COLLECTION = "alert-events";
+
+const EVENTS_MAX = 1000;
+const EVENTS_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+export type AlertSink = {
+   id: string;
+   send(event: AlertEvent): Promise<void>;
+};
+
+const sinks = new Map<string, AlertSink>();
+
+export function registerAlertSink(sink: AlertSink) {
+   sinks.set(sink.id, sink);
+}
+
+export function listAlertSinks() {
+   return Array.from(sinks.keys());
+}
+
+export type AlertRuleInput = Omit<AlertRule, "id" | "createdAt" | "updatedAt">;
+
+type Snapshot = Map<string, { rank: number; score: number }>;
+
+function describe(
+   rule: AlertRule,
+   mode: BubbleMode,
+   node: BubbleNode,
+   previous: { rank: number; score: number } | undefined,
+) {
+   const label = node.symbol ?? node.label;
+   switch (rule.trigger.kind) {
+      case "newToken":
+         return `${label} 新出现在 ${mode} 列表`;
+      case "enteredTop":
+         return `${label} 进入 ${mode} 前 ${rule.trigger.rank}（第 ${node.rank} 名）`;
+      case "scoreJump":
+         return `${label} boost 分数上涨 ${node.score - (previous?.score ?? 0)}（${previous?.score ?? 0} → ${node.score}）`;
+      case "match":
+         return `${label} 满足规则「${rule.name}」`;
+   }
+}
+
+function triggered(
+   rule: AlertRule,
+   node: BubbleNode,
+   previous: { rank: number; score: number } | undefined,
+   hasBaseline: boolean,
+) {
+   const t = rule.trigger;
+   switch (t.kind) {
+      case "match":
+         return true;
+      case "newToken":
+         return hasBaseline && !previous;
+      case "enteredTop":
+         return (
+            hasBaseline &&
+            node.rank <= t.rank &&
+            (!previous || previous.rank > t.rank)
+         );
+      case "scoreJump":
+         return (
+            Boolean(previous) &&
+            node.score - (previous?.score ?? 0) >= t.minDelta
+         );
+   }
+}
+
+export type AlertEngine = ReturnType<typeof createAlertEngine>;
+
+/**
+ * 每次刷新后对规则求值。`newToken` / `enteredTop` / `scoreJump` 需要和上一次
+ * 刷新结果比较，启动后的第一次刷新只记录基线；同一规则对同一 token 在冷却期内只触发一次。
+ */
+export function createAlertEngine(
+   storage: Storage,
+   opts: { onDispatchError: (err: unknown, sinkId: string) => void },
+) {
+   const previousByMode = new Map<BubbleMode, Snapshot>();
+   const lastFiredAtMs = new Map<string, number>();
+
+   for (const e of storage.list<AlertEvent>(EVENTS_COLLECTION)) {
+      const key = `${e.ruleId}|${tokenIdentityKey(e.node.chainId, e.node.tokenAddress)}`;
+      const at = Date.parse(e.firedAt);
+      if (at > (lastFiredAtMs.get(key) ?? 0)) lastFiredAtMs.set(key, at);
+   }
+
+   const listRules = () =>
+      storage
+         .list<AlertRule>(RULES_COLLECTION)
+         .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+   const getRule = (id: string) => storage.get<AlertRule>(RULES_COLLECTION, id);
+
+   const pruneEvents = (nowMs: number) => {
+      const events = storage
+         .list<AlertEvent>(EVENTS_COLLECTION)
+         .sort((a, b) => b.firedAt.localeCompare(a.firedAt));
+      events.forEach((e, i) => {
+         if (i >= EVENTS_MAX || nowMs - Date.parse(e.firedAt) > EVENTS_TTL_MS) {
+            storage.delete(EVENTS_COLLECTION, e.id);
+         }
+      });
+   };
+
+   const dispatch = (rule: AlertRule, event: AlertEvent) => {
+      for (const sinkId of rule.sinks) {
+         const sink = sinks.get(sinkId);
+         if (!sink) continue;
+         void sink
+            .send(event)
+            .catch((err) => opts.onDispatchError(err, sinkId));
+      }
+   };
+
+   return {
+      listRules,
+
+      getRule,
+
+      createRule(input: AlertRuleInput) {
+         const now = new Date().toISOString();
+         const rule: AlertRule = {
+            id: randomUUID(),
+            ...input,
+            createdAt: now,
+            updatedAt: now,
+         };
+         storage.put(RULES_COLLECTION, rule.id, rule);
+         return rule;
+      },
+
+      updateRule(id: string, patch: Partial<AlertRuleInput>) {
+         const rule = getRule(id);
+         if (!rule) return undefined;
+         const next: AlertRule = {
+            ...rule,
+            ...patch,
+            updatedAt: new Date().toISOString(),
+         };
+         storage.put(RULES_COLLECTION, id, next);
+         return next;
+      },
+
+      deleteRule(id: string) {
+         if (!getRule(id)) return false;
+         storage.delete(RULES_COLLECTION, id);
+         return true;
+      },
+
+      events(query: { ruleId?: string; sinceMs?: number; limit: number }) {
+         return storage
+            .list<AlertEvent>(EVENTS_COLLECTION)
+            .filter(
+               (e) =>
+                  (!query.ruleId || e.ruleId === query.ruleId) &&
+                  (query.sinceMs === undefined ||
+                     Date.parse(e.firedAt) > query.sinceMs),
+            )
+            .sort((a, b) => b.firedAt.localeCompare(a.firedAt))
+            .slice(0, query.limit);
+      },
+
+      evaluate({ mode, updatedAtMs, data }: RefreshEvent) {
+         const previous = previousByMode.get(mode);
+         const fired: AlertEvent[] = [];
+
+         for (const rule of listRules()) {
+            if (!rule.enabled || !rule.modes.includes(mode)) continue;
+
+            const { linkTypes, ...filters } = rule.conditions;
+            const candidates = applyBubbleFilters(data, filters, updatedAtMs);
+
+            for (const node of candidates) {
+               if (
+                  linkTypes?.length &&
+                  !node.links.some((l) => l.type && linkTypes.includes(l.type))
+               ) {
+                  continue;
+               }
+
+               const tokenKey = tokenIdentityKey(
+                  node.chainId,
+                  node.tokenAddress,
+               );
+               const prev = previous?.get(tokenKey);
+               if (!triggered(rule, node, prev, previous !== undefined))
+                  continue;
+
+               const cooldownKey = `${rule.id}|${tokenKey}`;
+               const last = lastFiredAtMs.get(cooldownKey);
+               if (
+                  last !== undefined &&
+                  updatedAtMs - last < rule.cooldownMinutes * 60_000
+               ) {
+                  continue;
+               }
+               lastFiredAtMs.set(cooldownKey, updatedAtMs);
+
+               const event: AlertEvent = {
+                  // 同一次刷新重复求值时 id 相同，不会重复入库
+                  id: `${rule.id}:${tokenKey}:${updatedAtMs}`,
+                  ruleId: rule.id,
+                  ruleName: rule.name,
+                  mode,
+                  trigger: rule.trigger.kind,
+                  firedAt: new Date(updatedAtMs).toISOString(),
+                  message: describe(rule, mode, node, prev),
+                  previous: prev,
+                  node,
+               };
+               storage.put(EVENTS_COLLECTION, event.id, event);
+               dispatch(rule, event);
+               fired.push(event);
+            }
+         }
+
+         previousByMode.set(
+            mode,
+            new Map(
+               data.map((n) => [
+                  tokenIdentityKey(n.chainId, n.tokenAddress),
+                  { rank: n.rank, score: n.score },
+               ]),
+            ),
+         );
+
+         if (fired.length > 0) pruneEvents(updatedAtMs);
+         return fired;
+      },
+   };
+}
@@ -0,0 +1,85 @@
+import { mkdirSync } from "node:fs";
+import { readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type CassetteError = {
+   name: string;
+   message: string;
+   code?: string;
+};
+
+/** 一次上游请求的录制结果：要么有 status/body，要么有 error（超时、连接重置等） */
+export type Cassette = {
+   url: string;
+   recordedAt: string;
+   latencyMs: number;
+   status?: number;
+   body?: string;
+   error?: CassetteError;
+};
+
+function slugifyUrl(url: string) {
+   try {
+      const u = new URL(url);
+      return u.pathname
+         .replace(/[^a-zA-Z0-9]+/g, "-")
+         .replace(/^-+|-+$/g, "")
+         .slice(0, 60);
+   } catch {
+      return "request";
+   }
+}
+
+export function createCassetteRecorder(dir: string) {
+   const root = path.resolve(dir);
+   mkdirSync(root, { recursive: true });
+
+   let seq = 0;
+
+   return (cassette: Cassette) => {
+      seq++;
+      const ts = Date.parse(cassette.recordedAt);
+      const file = path.join(
+         root,
+         `${ts}-${String(seq).padStart(6, "0")}-${slugifyUrl(cassette.url)}.json`,
+      );
+      void writeFile(file, JSON.stringify(cassette, null, 2)).catch(
+         () => undefined,
+      );
+   };
+}
+
+/**
+ * 按文件名（录制时间）顺序加载目录下的录制，同一 URL 多次录制时依次回放，
+ * 用完后一直重复最后一条，保证定时刷新在回放模式下也能持续运行。
+ */
+export async function loadCassettePlayer(dir: string) {
+   const root = path.resolve(dir);
+   const files = (await readdir(root))
+      .filter((f) => f.endsWith(".json"))
+      .sort();
+
+   const byUrl = new Map<string, Cassette[]>();
+   for (const f of files) {
+      const cassette = JSON.parse(
+         await readFile(path.join(root, f), "utf8"),
+      ) as Cassette;
+      const list = byUrl.get(cassette.url) ?? [];
+      list.push(cassette);
+      byUrl.set(cassette.url, list);
+   }
+
+   const cursors = new Map<string, number>();
+
+   return {
+      size: files.length,
+      next(url: string): Cassette | undefined {
+         const list = byUrl.get(url);
+         if (!list || list.length === 0) return undefined;
+
+         const i = cursors.get(url) ?? 0;
+         cursors.set(url, i + 1);
+         return list[Math.min(i, list.length - 1)];
+      },
+   };
+}
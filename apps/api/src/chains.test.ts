@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import {
+   addressKey,
+   isValidAddress,
+   normalizeAddress,
+   sameAddress,
+   toChecksumAddress,
+   validateAddress,
+} from "./chains.js";
+import { keccak256 } from "./keccak.js";
+
+function hex(bytes: Uint8Array) {
+   return Buffer.from(bytes).toString("hex");
+}
+
+describe("keccak256", () => {
+   it("matches the Ethereum test vectors", () => {
+      expect(hex(keccak256(""))).toBe(
+         "c5d2460186f7233c927e7db2dcc703c0e500b653ca82273b7bfad8045d85a470",
+      );
+      expect(hex(keccak256("abc"))).toBe(
+         "4e03657aea45a94fc7d47ba826c8d667c0d1e6e33a64a036ec44f58fa12d6c45",
+      );
+   });
+
+   it("handles input longer than one block", () => {
+      expect(keccak256("a".repeat(200))).toHaveLength(32);
+      expect(hex(keccak256("a".repeat(200)))).not.toBe(
+         hex(keccak256("a".repeat(201))),
+      );
+   });
+});
+
+describe("EVM", () => {
+   const vectors = [
+      "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAed",
+      "0xfB6916095ca1df60bB79Ce92cE3Ea74c37c5d359",
+   ];
+
+   it("produces EIP-55 checksums", () => {
+      for (const address of vectors) {
+         expect(toChecksumAddress(address.toLowerCase())).toBe(address);
+         expect(normalizeAddress("ethereum", address.toLowerCase())).toBe(
+            address,
+         );
+      }
+   });
+
+   it("rejects mixed case with a wrong checksum", () => {
+      const wrong = "0x5aAeb6053F3E94C9b9A09f33669435E7Ef1BeAeD";
+      expect(validateAddress("ethereum", wrong)).toBe("EVM 地址校验和不正确");
+      expect(isValidAddress("ethereum", wrong.toLowerCase())).toBe(true);
+   });
+
+   it("compares addresses case-insensitively", () => {
+      expect(sameAddress("base", vectors[0]!, vectors[0]!.toLowerCase())).toBe(
+         true,
+      );
+   });
+});
+
+describe("base58 chains", () => {
+   it("validates Solana addresses", () => {
+      const address = "EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm";
+      expect(isValidAddress("solana", address)).toBe(true);
+      expect(isValidAddress("solana", address.replace("E", "0"))).toBe(false);
+      // base58 大小写敏感
+      expect(sameAddress("solana", address, address.toLowerCase())).toBe(false);
+   });
+
+   it("checks Tron checksums", () => {
+      expect(isValidAddress("tron", "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t")).toBe(
+         true,
+      );
+      expect(
+         validateAddress("tron", "TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6u"),
+      ).toBe("Tron 地址校验和不正确");
+   });
+});
+
+describe("TON", () => {
+   const bounceable = "EQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_sDs";
+   const nonBounceable = "UQCxE6mUtQJKFnGfaROTKOt1lZbDiiX1kCixRv7Nw2Id_p0p";
+   const raw =
+      "0:b113a994b5024a16719f69139328eb759596c38a25f59028b146fecdc3621dfe";
+
+   it("maps every form of an address to the raw key", () => {
+      expect(addressKey("ton", bounceable)).toBe(raw);
+      expect(addressKey("ton", nonBounceable)).toBe(raw);
+      expect(addressKey("ton", raw.toUpperCase())).toBe(raw);
+   });
+
+   it("rejects a friendly address with a bad crc", () => {
+      expect(isValidAddress("ton", bounceable)).toBe(true);
+      expect(isValidAddress("ton", `${bounceable.slice(0, -1)}t`)).toBe(false);
+   });
+});
+
+describe("Move chains", () => {
+   it("pads short addresses to 64 hex digits", () => {
+      expect(addressKey("sui", "0x2::sui::SUI")).toBe(
+         `0x${"2".padStart(64, "0")}::sui::SUI`,
+      );
+      expect(sameAddress("aptos", "0x1", `0x${"1".padStart(64, "0")}`)).toBe(
+         true,
+      );
+   });
+});
+
+describe("unregistered chains", () => {
+   it("accepts plain ids but not path-like strings", () => {
+      expect(isValidAddress("somechain", "abc")).toBe(true);
+      expect(isValidAddress("somechain", "abc/def")).toBe(false);
+   });
+});
@@ -0,0 +1,204 @@
+import { createHash } from "node:crypto";
+import { getChainInfo, type ChainAddressFormat } from "@memebubbles/shared";
+import { keccak256 } from "./keccak.js";
+
+/**
+ * 各链的地址格式不同：EVM / Move 系地址是十六进制，大小写无关；Solana、Tron
+ * 是 base58，大小写敏感；TON 同一个地址有 raw 与 user-friendly 多种写法。
+ * 拼 map key、去重、比较地址都要先经过这里，不能直接 toLowerCase()。
+ * 每条链用哪种格式由共享的链登记表（CHAINS）决定。
+ */
+export function addressFormatOf(chainId: string): ChainAddressFormat {
+   return getChainInfo(chainId)?.addressFormat ?? "other";
+}
+
+const BASE58_ALPHABET =
+   "123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz";
+
+function base58Decode(s: string): Uint8Array | null {
+   let n = 0n;
+   for (const ch of s) {
+      const i = BASE58_ALPHABET.indexOf(ch);
+      if (i < 0) return null;
+      n = n * 58n + BigInt(i);
+   }
+
+   const bytes: number[] = [];
+   while (n > 0n) {
+      bytes.unshift(Number(n & 0xffn));
+      n >>= 8n;
+   }
+   // 前导的 "1" 对应前导零字节
+   for (const ch of s) {
+      if (ch !== "1") break;
+      bytes.unshift(0);
+   }
+   return Uint8Array.from(bytes);
+}
+
+function sha256(data: Uint8Array) {
+   return createHash("sha256").update(data).digest();
+}
+
+/** CRC16-XMODEM，TON user-friendly 地址的校验和 */
+function crc16(data: Uint8Array) {
+   let crc = 0;
+   for (const byte of data) {
+      crc ^= byte << 8;
+      for (let i = 0; i < 8; i++) {
+         crc =
+            crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+      }
+   }
+   return crc;
+}
+
+const EVM_RE = /^0x[0-9a-fA-F]{40}$/;
+
+/** EIP-55：地址小写十六进制的 keccak256，对应半字节 >= 8 的字母大写 */
+export function toChecksumAddress(address: string) {
+   const hex = address.slice(2).toLowerCase();
+   const hash = keccak256(hex);
+   let out = "0x";
+   for (let i = 0; i < hex.length; i++) {
+      const nibble = (hash[i >> 1]! >> (i % 2 === 0 ? 4 : 0)) & 0x0f;
+      out += nibble >= 8 ? hex[i]!.toUpperCase() : hex[i]!;
+   }
+   return out;
+}
+
+function validateEvm(address: string) {
+   if (!EVM_RE.test(address)) return "EVM 地址应为 0x 开头的 40 位十六进制";
+   const hex = address.slice(2);
+   // 全小写 / 全大写视为未带校验和；大小写混合时必须符合 EIP-55
+   const mixed = hex !== hex.toLowerCase() && hex !== hex.toUpperCase();
+   if (mixed && toChecksumAddress(address) !== address) {
+      return "EVM 地址校验和不正确";
+   }
+   return null;
+}
+
+function validateSolana(address: string) {
+   if (address.length < 32 || address.length > 44) {
+      return "Solana 地址长度不正确";
+   }
+   const bytes = base58Decode(address);
+   if (!bytes) return "Solana 地址包含非 base58 字符";
+   if (bytes.length !== 32) return "Solana 地址应解码为 32 字节";
+   return null;
+}
+
+function validateTron(address: string) {
+   if (address.length !== 34 || !address.startsWith("T")) {
+      return "Tron 地址应为 T 开头的 34 位 base58";
+   }
+   const bytes = base58Decode(address);
+   if (!bytes || bytes.length !== 25) return "Tron 地址格式不正确";
+   const checksum = sha256(sha256(bytes.subarray(0, 21))).subarray(0, 4);
+   if (!checksum.equals(bytes.subarray(21))) return "Tron 地址校验和不正确";
+   return null;
+}
+
+const TON_RAW_RE = /^(-1|0):([0-9a-fA-F]{64})$/;
+const TON_FRIENDLY_RE = /^[A-Za-z0-9_\-+/]{48}$/;
+
+/** user-friendly 地址解码为 [workchain, hash]，校验失败返回 null */
+function decodeTonFriendly(address: string) {
+   if (!TON_FRIENDLY_RE.test(address)) return null;
+   const bytes = Buffer.from(
+      address.replace(/-/g, "+").replace(/_/g, "/"),
+      "base64",
+   );
+   if (bytes.length !== 36) return null;
+   const crc = crc16(bytes.subarray(0, 34));
+   if (bytes.readUInt16BE(34) !== crc) return null;
+   return {
+      workchain: bytes.readInt8(1),
+      hash: bytes.subarray(2, 34).toString("hex"),
+   };
+}
+
+function validateTon(address: string) {
+   if (TON_RAW_RE.test(address)) return null;
+   if (decodeTonFriendly(address)) return null;
+   return "TON 地址格式不正确";
+}
+
+/** Sui / Aptos：0x 开头的十六进制账户地址，币种类型还带 ::module::Name */
+const MOVE_RE = /^0x([0-9a-fA-F]{1,64})((?:::[A-Za-z_][A-Za-z0-9_]*){2})?$/;
+
+function validateMove(address: string) {
+   return MOVE_RE.test(address)
+      ? null
+      : "地址应为 0x 开头的十六进制（可带 ::module::Name）";
+}
+
+const OTHER_RE = /^[^\s/:?#]{1,128}$/;
+
+function validateOther(address: string) {
+   return OTHER_RE.test(address) ? null : "地址格式不正确";
+}
+
+/** 返回错误说明，合法时返回 null */
+export function validateAddress(chainId: string, address: string) {
+   switch (addressFormatOf(chainId)) {
+      case "evm":
+         return validateEvm(address);
+      case "solana":
+         return validateSolana(address);
+      case "tron":
+         return validateTron(address);
+      case "ton":
+         return validateTon(address);
+      case "move":
+         return validateMove(address);
+      case "other":
+         return validateOther(address);
+   }
+}
+
+export function isValidAddress(chainId: string, address: string) {
+   return validateAddress(chainId, address) === null;
+}
+
+/**
+ * 用作 map key 的地址：同一地址的不同写法得到同一个 key，不同地址不会撞在一起。
+ * 不合法的地址原样返回（上游偶尔有脏数据，不因此丢弃整条记录）。
+ */
+export function addressKey(chainId: string, address: string) {
+   const a = address.trim();
+   switch (addressFormatOf(chainId)) {
+      case "evm":
+         return a.toLowerCase();
+      case "ton": {
+         const raw = TON_RAW_RE.exec(a);
+         if (raw) return `${raw[1]}:${raw[2]!.toLowerCase()}`;
+         const friendly = decodeTonFriendly(a);
+         return friendly ? `${friendly.workchain}:${friendly.hash}` : a;
+      }
+      case "move": {
+         const m = MOVE_RE.exec(a);
+         if (!m) return a;
+         return `0x${m[1]!.toLowerCase().padStart(64, "0")}${m[2] ?? ""}`;
+      }
+      case "other":
+         // 未登记的链：十六进制地址按 EVM 处理，其余保留大小写
+         return /^0x[0-9a-fA-F]+$/.test(a) ? a.toLowerCase() : a;
+      case "solana":
+      case "tron":
+         return a;
+   }
+}
+
+export function sameAddress(chainId: string, a: string, b: string) {
+   return addressKey(chainId, a) === addressKey(chainId, b);
+}
+
+/** 对外展示 / 持久化用的规范写法：EVM 用 EIP-55 校验和，其余保持原样 */
+export function normalizeAddress(chainId: string, address: string) {
+   const a = address.trim();
+   if (addressFormatOf(chainId) === "evm" && EVM_RE.test(a)) {
+      return toChecksumAddress(a);
+   }
+   return a;
+}
@@ -0,0 +1,39 @@
+import { createHash } from "node:crypto";
+import type { IncomingHttpHeaders } from "node:http";
+
+export function weakEtag(parts: (string | number)[]) {
+   const hash = createHash("sha1")
+      .update(parts.join("|"))
+      .digest("base64url")
+      .slice(0, 16);
+   return `W/"${hash}"`;
+}
+
+/**
+ * 按 If-None-Match（优先）或 If-Modified-Since 判断客户端缓存是否仍然有效。
+ */
+export function isNotModified(
+   headers: IncomingHttpHeaders,
+   etag: string,
+   lastModifiedMs: number,
+) {
+   const ifNoneMatch = headers["if-none-match"];
+   if (ifNoneMatch) {
+      const opaque = etag.replace(/^W\//, "");
+      return ifNoneMatch.split(",").some((tag) => {
+         const t = tag.trim();
+         return t === "*" || t.replace(/^W\//, "") === opaque;
+      });
+   }
+
+   const ifModifiedSince = headers["if-modified-since"];
+   if (ifModifiedSince) {
+      const ms = Date.parse(ifModifiedSince);
+      // HTTP 日期只精确到秒
+      return (
+         !Number.isNaN(ms) && Math.floor(lastModifiedMs / 1000) * 1000 <= ms
+      );
+   }
+
+   return false;
+}
@@ -0,0 +1,88 @@
+import type { BubbleHotness, BubbleNode } from "@memebubbles/shared";
+import { describe, expect, it } from "vitest";
+import { diffBubbleNodes, isEmptyDiff } from "./diff.js";
+
+function node(id: string, patch: Partial<BubbleNode> = {}): BubbleNode {
+   return {
+      id,
+      rank: 1,
+      chainId: "solana",
+      tokenAddress: id,
+      label: id,
+      score: 100,
+      enrichment: { status: "fresh", source: "pair", updatedAt: "t0" },
+      url: `https://dexscreener.com/solana/${id}`,
+      links: [],
+      provenance: [{ source: "top", firstSeenAt: "t0", lastSeenAt: "t0" }],
+      ...patch,
+   };
+}
+
+describe("diffBubbleNodes", () => {
+   it("reports added and removed nodes", () => {
+      const diff = diffBubbleNodes(
+         [node("a"), node("b")],
+         [node("b"), node("c")],
+      );
+      expect(diff.added.map((n) => n.id)).toEqual(["c"]);
+      expect(diff.removed).toEqual(["a"]);
+      expect(diff.changed).toEqual([]);
+   });
+
+   it("ignores bookkeeping fields that change on every refresh", () => {
+      const prev = node("a", {
+         boostVelocity: { m5: 1 },
+         hotness: { score: 10, components: {} as BubbleHotness["components"] },
+      });
+      const next = node("a", {
+         boostVelocity: { m5: 3 },
+         hotness: {
+            score: 10.3,
+            components: {} as BubbleHotness["components"],
+         },
+         enrichment: { status: "fresh", source: "pair", updatedAt: "t1" },
+         provenance: [{ source: "top", firstSeenAt: "t0", lastSeenAt: "t1" }],
+      });
+      expect(isEmptyDiff(diffBubbleNodes([prev], [next]))).toBe(true);
+   });
+
+   it("reports hotness changes that move the rounded score", () => {
+      const hot = (score: number) =>
+         node("a", {
+            hotness: {
+               score,
+               components: {} as BubbleHotness["components"],
+            },
+         });
+      expect(isEmptyDiff(diffBubbleNodes([hot(40.1)], [hot(40.4)]))).toBe(true);
+      expect(diffBubbleNodes([hot(40.1)], [hot(52.3)]).changed).toEqual([
+         hot(52.3),
+      ]);
+   });
+
+   it("reports changes to displayed fields with the latest node", () => {
+      const next = node("a", { rank: 2, boostVelocity: { m5: 3 } });
+      const diff = diffBubbleNodes([node("a")], [next]);
+      expect(diff.changed).toEqual([next]);
+   });
+
+   it("treats a new provenance source or metrics update as a change", () => {
+      const withAds = node("a", {
+         provenance: [
+            { source: "top", firstSeenAt: "t0", lastSeenAt: "t0" },
+            { source: "ads", firstSeenAt: "t1", lastSeenAt: "t1" },
+         ],
+      });
+      expect(diffBubbleNodes([node("a")], [withAds]).changed).toHaveLength(1);
+
+      const withPrice = node("a", {
+         metrics: {
+            priceUsd: 1.2,
+            priceChange: {},
+            volume: {},
+            txns: {},
+         },
+      });
+      expect(diffBubbleNodes([node("a")], [withPrice]).changed).toHaveLength(1);
+   });
+});
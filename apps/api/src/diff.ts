@@ -0,0 +1,61 @@
+import type { BubbleNode, BubbleNodesDiff } from "@memebubbles/shared";
+
+/**
+ * 只比较客户端展示与排序用到的字段。provenance 的 lastSeenAt、enrichment.updatedAt
+ * 与 boostVelocity 每次刷新都会变，不单独算作变化；hotness 决定客户端的排序与布局，
+ * 按整数分比较，忽略小数位的抖动。节点因其他字段变化下发时会一并带上最新值。
+ */
+function displayFingerprint(n: BubbleNode) {
+   return JSON.stringify([
+      n.rank,
+      n.score,
+      n.label,
+      n.symbol,
+      n.name,
+      n.marketCap,
+      n.pairAddress,
+      n.pairCreatedAt,
+      n.metrics,
+      n.url,
+      n.description,
+      n.iconUrl,
+      n.headerImageUrl,
+      n.links,
+      n.provenance.map((p) => p.source),
+      n.enrichment.status,
+      n.enrichment.source,
+      n.hotness && Math.round(n.hotness.score),
+   ]);
+}
+
+export function diffBubbleNodes(
+   prev: BubbleNode[],
+   next: BubbleNode[],
+): BubbleNodesDiff {
+   const prevById = new Map(prev.map((n) => [n.id, n]));
+   const nextIds = new Set(next.map((n) => n.id));
+
+   const added: BubbleNode[] = [];
+   const changed: BubbleNode[] = [];
+
+   for (const n of next) {
+      const old = prevById.get(n.id);
+      if (!old) {
+         added.push(n);
+      } else if (displayFingerprint(old) !== displayFingerprint(n)) {
+         changed.push(n);
+      }
+   }
+
+   const removed = prev.filter((n) => !nextIds.has(n.id)).map((n) => n.id);
+
+   return { added, removed, changed };
+}
+
+export function isEmptyDiff(diff: BubbleNodesDiff) {
+   return (
+      diff.added.length === 0 &&
+      diff.removed.length === 0 &&
+      diff.changed.length === 0
+   );
+}
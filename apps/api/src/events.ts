@@ -0,0 +1,13 @@
+import { EventEmitter } from "node:events";
+import type { BubbleMode, BubbleNode } from "@memebubbles/shared";
+
+export type RefreshEvent = {
+   mode: BubbleMode;
+   updatedAtMs: number;
+   data: BubbleNode[];
+};
+
+export const refreshEvents = new EventEmitter<{ refresh: [RefreshEvent] }>();
+
+// 每个 SSE 连接各注册一个监听器
+refreshEvents.setMaxListeners(0);
@@ -0,0 +1,61 @@
+import type { BubbleFilters, BubbleNode } from "@memebubbles/shared";
+
+function hasSocialLinks(n: BubbleNode) {
+   // boost 里的社交链接带 type（twitter / telegram 等），官网链接只有 label
+   return n.links.some((l) => Boolean(l.type));
+}
+
+/**
+ * 按查询参数过滤已补全的节点。设置了数值条件时，缺少对应数据的节点一律排除。
+ */
+export function applyBubbleFilters(
+   nodes: BubbleNode[],
+   filters: BubbleFilters,
+   nowMs: number,
+) {
+   const chains = filters.chainId?.map((c) => c.toLowerCase());
+   const { minMarketCap, maxMarketCap, minLiquidity, maxAgeMinutes } = filters;
+
+   return nodes.filter((n) => {
+      if (chains && !chains.includes(n.chainId.toLowerCase())) return false;
+
+      if (minMarketCap !== undefined || maxMarketCap !== undefined) {
+         if (n.marketCap === undefined) return false;
+         if (minMarketCap !== undefined && n.marketCap < minMarketCap) {
+            return false;
+         }
+         if (maxMarketCap !== undefined && n.marketCap > maxMarketCap) {
+            return false;
+         }
+      }
+
+      if (minLiquidity !== undefined) {
+         const liquidity = n.metrics?.liquidityUsd;
+         if (liquidity === undefined || liquidity < minLiquidity) return false;
+      }
+
+      if (maxAgeMinutes !== undefined) {
+         const createdAtMs = n.pairCreatedAt
+            ? Date.parse(n.pairCreatedAt)
+            : Number.NaN;
+         if (Number.isNaN(createdAtMs)) return false;
+         if (nowMs - createdAtMs > maxAgeMinutes * 60_000) return false;
+      }
+
+      if (
+         filters.hasSocials !== undefined &&
+         hasSocialLinks(n) !== filters.hasSocials
+      ) {
+         return false;
+      }
+
+      if (
+         filters.sources &&
+         !n.provenance.some((p) => filters.sources?.includes(p.source))
+      ) {
+         return false;
+      }
+
+      return true;
+   });
+}
@@ -0,0 +1,90 @@
+import type { BubbleNode } from "@memebubbles/shared";
+import { describe, expect, it } from "vitest";
+import { createHistoryStore } from "./history.js";
+import { createMemoryStorage, type Storage } from "./storage.js";
+
+const MINUTE = 60_000;
+const T0 = Date.parse("2026-01-01T00:00:00Z");
+
+function node(id: string, patch: Partial<BubbleNode> = {}): BubbleNode {
+   return {
+      id,
+      rank: 1,
+      chainId: "solana",
+      tokenAddress: id,
+      label: id,
+      score: 100,
+      enrichment: { status: "missing" },
+      url: `https://dexscreener.com/solana/${id}`,
+      links: [],
+      provenance: [],
+      ...patch,
+   };
+}
+
+/** 记录每次 batch 内的写操作 */
+function countingStorage() {
+   const inner = createMemoryStorage();
+   const puts: string[] = [];
+   let batches = 0;
+   const storage: Storage = {
+      ...inner,
+      put: (collection, key, value) => {
+         puts.push(`${collection}/${key}`);
+         inner.put(collection, key, value);
+      },
+      batch: (fn) => {
+         batches++;
+         inner.batch(fn);
+      },
+   };
+   return { storage, puts, batches: () => batches };
+}
+
+function createStore(storage: Storage) {
+   return createHistoryStore(storage, {
+      intervalMs: MINUTE,
+      tiers: [
+         { maxAgeMs: 60 * MINUTE, stepMs: MINUTE },
+         { maxAgeMs: 24 * 60 * MINUTE, stepMs: 15 * MINUTE },
+      ],
+   });
+}
+
+describe("history record", () => {
+   it("writes each snapshot in one batch", () => {
+      const { storage, batches } = countingStorage();
+      const history = createStore(storage);
+
+      expect(history.record("top", [node("a"), node("b")], T0)).toBe(true);
+      expect(history.record("top", [node("a")], T0 + MINUTE - 1)).toBe(false);
+      expect(batches()).toBe(1);
+   });
+
+   it("skips directory writes when only lastSeenAtMs moved within the step", () => {
+      const { storage, puts } = countingStorage();
+      const history = createStore(storage);
+      const directoryPuts = () =>
+         puts.filter((p) => p.startsWith("history-tokens/")).length;
+
+      history.record("top", [node("a"), node("b")], T0);
+      expect(directoryPuts()).toBe(2);
+
+      history.record("top", [node("a"), node("b")], T0 + MINUTE);
+      expect(directoryPuts()).toBe(2);
+
+      history.record(
+         "top",
+         [node("a", { symbol: "A" }), node("b")],
+         T0 + 2 * MINUTE,
+      );
+      expect(directoryPuts()).toBe(3);
+
+      history.record(
+         "top",
+         [node("a", { symbol: "A" }), node("b")],
+         T0 + 17 * MINUTE,
+      );
+      expect(directoryPuts()).toBe(5);
+   });
+});
@@ -0,0 +1,263 @@
+import type {
+   BubbleHistorySnapshot,
+   BubbleMode,
+   BubbleNode,
+   BubbleSnapshotToken,
+   TokenHistoryPoint,
+} from "@memebubbles/shared";
+import { tokenIdentityKey } from "./keys.js";
+import type { Storage } from "./storage.js";
+
+/** 每档：快照年龄不超过 maxAgeMs 时，每 stepMs 只保留一张；超过最后一档即删除 */
+export type RetentionTier = { maxAgeMs: number; stepMs: number };
+
+export type HistoryPolicy = {
+   intervalMs: number;
+   tiers: RetentionTier[];
+};
+
+/** [id, rank, score, marketCap, priceUsd, liquidityUsd, volume24h, priceChange24h] */
+type CompactToken = [
+   string,
+   number,
+   number,
+   number | null,
+   number | null,
+   number | null,
+   number | null,
+   number | null,
+];
+
+type StoredSnapshot = { t: number; tokens: CompactToken[] };
+
+type DirectoryEntry = {
+   id: string;
+   tokenKey: string;
+   chainId: string;
+   tokenAddress: string;
+   symbol?: string;
+   name?: string;
+   pairAddress?: string;
+   lastSeenAtMs: number;
+};
+
+const DIRECTORY_COLLECTION = "history-tokens";
+
+function snapshotCollection(mode: BubbleMode) {
+   return `history:${mode}`;
+}
+
+function snapshotKey(t: number) {
+   return String(t).padStart(15, "0");
+}
+
+function orNull(v: number | undefined) {
+   return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function orUndefined(v: number | null) {
+   return v === null ? undefined : v;
+}
+
+function compactNode(n: BubbleNode): CompactToken {
+   return [
+      n.id,
+      n.rank,
+      n.score,
+      orNull(n.marketCap),
+      orNull(n.metrics?.priceUsd),
+      orNull(n.metrics?.liquidityUsd),
+      orNull(n.metrics?.volume.h24),
+      orNull(n.metrics?.priceChange.h24),
+   ];
+}
+
+function expandMetrics(c: CompactToken) {
+   return {
+      rank: c[1],
+      score: c[2],
+      marketCap: orUndefined(c[3]),
+      priceUsd: orUndefined(c[4]),
+      liquidityUsd: orUndefined(c[5]),
+      volume24h: orUndefined(c[6]),
+      priceChange24h: orUndefined(c[7]),
+   };
+}
+
+function sameDirectoryFields(a: DirectoryEntry, b: DirectoryEntry) {
+   return (
+      a.tokenKey === b.tokenKey &&
+      a.chainId === b.chainId &&
+      a.tokenAddress === b.tokenAddress &&
+      a.symbol === b.symbol &&
+      a.name === b.name &&
+      a.pairAddress === b.pairAddress
+   );
+}
+
+export type HistoryStore = ReturnType<typeof createHistoryStore>;
+
+export function createHistoryStore(storage: Storage, policy: HistoryPolicy) {
+   const lastRecordedAtMs = new Map<BubbleMode, number>();
+
+   const listSnapshots = (mode: BubbleMode, fromMs: number, toMs: number) =>
+      storage
+         .list<StoredSnapshot>(snapshotCollection(mode))
+         .filter((s) => s.t >= fromMs && s.t <= toMs)
+         .sort((a, b) => a.t - b.t);
+
+   const applyRetention = (mode: BubbleMode, nowMs: number) => {
+      const collection = snapshotCollection(mode);
+      const keptBuckets = new Set<string>();
+      const snapshots = storage
+         .list<StoredSnapshot>(collection)
+         .sort((a, b) => a.t - b.t);
+
+      for (const s of snapshots) {
+         const age = nowMs - s.t;
+         const tierIndex = policy.tiers.findIndex((t) => age <= t.maxAgeMs);
+         const tier = policy.tiers[tierIndex];
+         if (!tier) {
+            storage.delete(collection, snapshotKey(s.t));
+            continue;
+         }
+
+         const bucket = `${tierIndex}:${Math.floor(s.t / tier.stepMs)}`;
+         if (keptBuckets.has(bucket)) {
+            storage.delete(collection, snapshotKey(s.t));
+            continue;
+         }
+         keptBuckets.add(bucket);
+      }
+   };
+
+   const directoryById = () => {
+      const out = new Map<string, DirectoryEntry>();
+      for (const e of storage.list<DirectoryEntry>(DIRECTORY_COLLECTION)) {
+         out.set(e.id, e);
+      }
+      return out;
+   };
+
+   return {
+      record(mode: BubbleMode, nodes: BubbleNode[], atMs: number) {
+         const last = lastRecordedAtMs.get(mode) ?? 0;
+         if (atMs - last < policy.intervalMs) return false;
+         lastRecordedAtMs.set(mode, atMs);
+
+         storage.batch(() => {
+            storage.put<StoredSnapshot>(
+               snapshotCollection(mode),
+               snapshotKey(atMs),
+               { t: atMs, tokens: nodes.map(compactNode) },
+            );
+
+            // 目录只用于按最后一档清理和搜索展示，lastSeenAtMs 精确到最后一档的
+            // step 即可；其余字段没变时不必每次快照都重写
+            const seenStepMs = policy.tiers.at(-1)?.stepMs ?? 0;
+            for (const n of nodes) {
+               const entry: DirectoryEntry = {
+                  id: n.id,
+                  tokenKey: tokenIdentityKey(n.chainId, n.tokenAddress),
+                  chainId: n.chainId,
+                  tokenAddress: n.tokenAddress,
+                  symbol: n.symbol,
+                  name: n.name,
+                  pairAddress: n.pairAddress,
+                  lastSeenAtMs: atMs,
+               };
+               const existing = storage.get<DirectoryEntry>(
+                  DIRECTORY_COLLECTION,
+                  n.id,
+               );
+               if (
+                  existing &&
+                  atMs - existing.lastSeenAtMs < seenStepMs &&
+                  sameDirectoryFields(existing, entry)
+               ) {
+                  continue;
+               }
+               storage.put(DIRECTORY_COLLECTION, n.id, entry);
+            }
+
+            applyRetention(mode, atMs);
+
+            const oldest = policy.tiers.at(-1)?.maxAgeMs ?? 0;
+            for (const e of storage.list<DirectoryEntry>(
+               DIRECTORY_COLLECTION,
+            )) {
+               if (atMs - e.lastSeenAtMs > oldest) {
+                  storage.delete(DIRECTORY_COLLECTION, e.id);
+               }
+            }
+         });
+         return true;
+      },
+
+      /** 每个 step 区间取最后一张快照 */
+      snapshots(opts: {
+         mode: BubbleMode;
+         fromMs: number;
+         toMs: number;
+         stepMs: number;
+      }): BubbleHistorySnapshot[] {
+         const byBucket = new Map<number, StoredSnapshot>();
+         for (const s of listSnapshots(opts.mode, opts.fromMs, opts.toMs)) {
+            byBucket.set(Math.floor((s.t - opts.fromMs) / opts.stepMs), s);
+         }
+
+         const directory = directoryById();
+         return Array.from(byBucket.values()).map((s) => ({
+            at: new Date(s.t).toISOString(),
+            tokens: s.tokens.map((c): BubbleSnapshotToken => {
+               const d = directory.get(c[0]);
+               const [chainId = "", ...rest] = c[0].split(":");
+               return {
+                  id: c[0],
+                  chainId: d?.chainId ?? chainId,
+                  tokenAddress: d?.tokenAddress ?? rest.join(":"),
+                  symbol: d?.symbol,
+                  name: d?.name,
+                  ...expandMetrics(c),
+               };
+            }),
+         }));
+      },
+
+      tokenSeries(opts: {
+         chainId: string;
+         tokenAddress: string;
+         modes: BubbleMode[];
+         fromMs: number;
+         toMs: number;
+      }): TokenHistoryPoint[] {
+         const tokenKey = tokenIdentityKey(opts.chainId, opts.tokenAddress);
+         const ids = new Set(
+            storage
+               .list<DirectoryEntry>(DIRECTORY_COLLECTION)
+               .filter((e) => e.tokenKey === tokenKey)
+               .map((e) => e.id),
+         );
+         if (ids.size === 0) return [];
+
+         const points: TokenHistoryPoint[] = [];
+         for (const mode of opts.modes) {
+            for (const s of listSnapshots(mode, opts.fromMs, opts.toMs)) {
+               const c = s.tokens.find((x) => ids.has(x[0]));
+               if (!c) continue;
+               points.push({
+                  at: new Date(s.t).toISOString(),
+                  mode,
+                  ...expandMetrics(c),
+               });
+            }
+         }
+
+         return points.sort((a, b) => a.at.localeCompare(b.at));
+      },
+
+      directory() {
+         return storage.list<DirectoryEntry>(DIRECTORY_COLLECTION);
+      },
+   };
+}
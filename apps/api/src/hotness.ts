@@ -0,0 +1,132 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import type {
+   BubbleHotness,
+   BubbleNode,
+   HotnessComponent,
+} from "@memebubbles/shared";
+import { lastSeenAtMs } from "./ranking.js";
+
+export const HOTNESS_COMPONENTS = [
+   "boost",
+   "boostVelocity",
+   "volume",
+   "priceChange",
+   "buyRatio",
+   "recency",
+] as const satisfies readonly HotnessComponent[];
+
+export type HotnessWeights = Record<HotnessComponent, number>;
+
+export const DEFAULT_HOTNESS_WEIGHTS: HotnessWeights = {
+   boost: 0.25,
+   boostVelocity: 0.2,
+   volume: 0.2,
+   priceChange: 0.1,
+   buyRatio: 0.1,
+   recency: 0.15,
+};
+
+const hotnessConfigSchema = z.object({
+   weights: z
+      .object(
+         Object.fromEntries(
+            HOTNESS_COMPONENTS.map((c) => [c, z.number().nonnegative()]),
+         ) as Record<HotnessComponent, z.ZodNumber>,
+      )
+      .partial()
+      .refine((w) => Object.values(w).some((v) => v > 0), {
+         message: "至少需要一个大于 0 的权重",
+      }),
+});
+
+let weights: HotnessWeights = DEFAULT_HOTNESS_WEIGHTS;
+
+/**
+ * 读取权重配置文件；文件不存在时使用默认权重，未列出的分量记为 0。
+ */
+export async function loadHotnessConfig(file: string) {
+   const resolved = path.resolve(file);
+   if (!existsSync(resolved)) {
+      weights = DEFAULT_HOTNESS_WEIGHTS;
+      return { path: null, weights };
+   }
+
+   const json = JSON.parse(await readFile(resolved, "utf8")) as unknown;
+   const parsed = hotnessConfigSchema.parse(json);
+   weights = Object.fromEntries(
+      HOTNESS_COMPONENTS.map((c) => [c, parsed.weights[c] ?? 0]),
+   ) as HotnessWeights;
+   return { path: resolved, weights };
+}
+
+function buyRatio(n: BubbleNode) {
+   const t = n.metrics?.txns.h24;
+   if (!t || t.buys + t.sells === 0) return undefined;
+   return t.buys / (t.buys + t.sells);
+}
+
+const COMPONENT_VALUES: Record<
+   HotnessComponent,
+   (n: BubbleNode) => number | undefined
+> = {
+   boost: (n) => n.score,
+   boostVelocity: (n) => n.boostVelocity?.h1,
+   volume: (n) => n.metrics?.volume.h24,
+   priceChange: (n) => n.metrics?.priceChange.h24,
+   buyRatio,
+   recency: lastSeenAtMs,
+};
+
+/** 当前列表内的百分位（0~1），缺失记 0，相同取值共用第一次出现的位置 */
+function percentiles(
+   nodes: BubbleNode[],
+   value: (n: BubbleNode) => number | undefined,
+) {
+   const out = new Map<string, number>();
+   const present = nodes
+      .map((n) => ({ id: n.id, v: value(n) }))
+      .filter((x): x is { id: string; v: number } => x.v !== undefined)
+      .sort((a, b) => a.v - b.v);
+
+   let pct = 0;
+   present.forEach((x, i) => {
+      if (x.v !== present[i - 1]?.v) {
+         pct = present.length === 1 ? 1 : i / (present.length - 1);
+      }
+      out.set(x.id, pct);
+   });
+   return out;
+}
+
+function round1(n: number) {
+   return Math.round(n * 10) / 10;
+}
+
+/**
+ * 给列表中每个节点计算 0~100 的热度分：各分量取列表内百分位后按权重加权，
+ * `components` 为各分量贡献的分值，相加等于 `score`。
+ */
+export function scoreHotness(nodes: BubbleNode[]): BubbleNode[] {
+   const total = HOTNESS_COMPONENTS.reduce((sum, c) => sum + weights[c], 0);
+   if (nodes.length === 0 || total <= 0) return nodes;
+
+   const pcts = HOTNESS_COMPONENTS.map(
+      (c) => [c, percentiles(nodes, COMPONENT_VALUES[c])] as const,
+   );
+
+   return nodes.map((n) => {
+      const components = {} as BubbleHotness["components"];
+      let score = 0;
+      for (const [c, byId] of pcts) {
+         const points = round1(
+            ((byId.get(n.id) ?? 0) * weights[c] * 100) / total,
+         );
+         components[c] = points;
+         score += points;
+      }
+      return { ...n, hotness: { score: round1(score), components } };
+   });
+}
@@ -0,0 +1,369 @@
+import http from "node:http";
+import https from "node:https";
+import {
+   createCassetteRecorder,
+   loadCassettePlayer,
+   type CassetteError,
+} from "./cassette.js";
+import {
+   upstreamDuration,
+   upstreamRequests,
+   upstreamRetries,
+   upstreamTimeouts,
+} from "./metrics.js";
+import { guardUpstream } from "./upstream.js";
+
+export function sleep(ms: number) {
+   return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function getErrorCode(err: unknown) {
+   if (typeof err !== "object" || err === null) return undefined;
+
+   if ("code" in err) {
+      const code = (err as { code?: unknown }).code;
+      return typeof code === "string" ? code : undefined;
+   }
+
+   if ("cause" in err) {
+      const cause = (err as { cause?: unknown }).cause;
+      if (typeof cause === "object" && cause !== null && "code" in cause) {
+         const code = (cause as { code?: unknown }).code;
+         return typeof code === "string" ? code : undefined;
+      }
+   }
+
+   return undefined;
+}
+
+export function isRetryableNetworkError(err: unknown) {
+   if (err instanceof DexscreenerTimeoutError) return true;
+
+   const code = getErrorCode(err);
+   return (
+      code === "ECONNRESET" ||
+      code === "ETIMEDOUT" ||
+      code === "ENOTFOUND" ||
+      code === "EAI_AGAIN"
+   );
+}
+
+export class DexscreenerTimeoutError extends Error {
+   public code = "ETIMEDOUT" as const;
+
+   constructor() {
+      super("Dexscreener 请求超时");
+      this.name = "DexscreenerTimeoutError";
+   }
+}
+
+type HttpsAgentWithTimeout = https.Agent & { timeout?: number };
+
+const httpsAgent: HttpsAgentWithTimeout = new https.Agent({
+   keepAlive: true,
+   maxSockets: 16,
+});
+
+type HttpAgentWithTimeout = http.Agent & { timeout?: number };
+
+const httpAgent: HttpAgentWithTimeout = new http.Agent({
+   keepAlive: true,
+   maxSockets: 16,
+});
+
+export function getDexscreenerTimeoutMs() {
+   return Number(process.env.DEXSCREENER_TIMEOUT_MS ?? 8000);
+}
+
+type HttpResponse = { status: number; body: string };
+
+type HttpTransport = (url: string, timeoutMs: number) => Promise<HttpResponse>;
+
+async function httpsGetRaw(
+   url: string,
+   timeoutMs: number,
+): Promise<HttpResponse> {
+   return await new Promise((resolve, reject) => {
+      const req = https.request(
+         url,
+         {
+            method: "GET",
+            headers: {
+               accept: "application/json",
+               "user-agent": "memebubbles/0.0.0",
+            },
+            agent: httpsAgent,
+         },
+         (res) => {
+            const statusCode = res.statusCode ?? 0;
+
+            res.setEncoding("utf8");
+
+            let body = "";
+            res.on("data", (chunk) => {
+               body += chunk;
+            });
+
+            res.on("end", () => {
+               clearTimeout(hardTimeoutId);
+               resolve({ status: statusCode, body });
+            });
+         },
+      );
+
+      const hardTimeoutId = setTimeout(() => {
+         req.destroy(new DexscreenerTimeoutError());
+      }, timeoutMs);
+
+      req.on("error", (err) => {
+         clearTimeout(hardTimeoutId);
+         reject(err);
+      });
+
+      req.end();
+   });
+}
+
+/**
+ * 出站 POST JSON（webhook 等），按协议复用 keep-alive agent；不经过录制/回放。
+ */
+export async function httpPostJson(
+   url: string,
+   body: string,
+   headers: Record<string, string>,
+   timeoutMs: number,
+): Promise<HttpResponse> {
+   const isHttps = new URL(url).protocol === "https:";
+   const request = isHttps ? https.request : http.request;
+
+   return await new Promise((resolve, reject) => {
+      const req = request(
+         url,
+         {
+            method: "POST",
+            headers: {
+               "content-type": "application/json",
+               "content-length": String(Buffer.byteLength(body)),
+               "user-agent": "memebubbles/0.0.0",
+               ...headers,
+            },
+            agent: isHttps ? httpsAgent : httpAgent,
+         },
+         (res) => {
+            const statusCode = res.statusCode ?? 0;
+
+            res.setEncoding("utf8");
+
+            let text = "";
+            res.on("data", (chunk) => {
+               text += chunk;
+            });
+
+            res.on("end", () => {
+               clearTimeout(hardTimeoutId);
+               resolve({ status: statusCode, body: text });
+            });
+         },
+      );
+
+      const hardTimeoutId = setTimeout(() => {
+         const err = new Error("请求超时") as Error & { code?: string };
+         err.code = "ETIMEDOUT";
+         req.destroy(err);
+      }, timeoutMs);
+
+      req.on("error", (err) => {
+         clearTimeout(hardTimeoutId);
+         reject(err);
+      });
+
+      req.end(body);
+   });
+}
+
+function toCassetteError(err: unknown): CassetteError {
+   if (err instanceof Error) {
+      const code = (err as { code?: unknown }).code;
+      return {
+         name: err.name,
+         message: err.message,
+         code: typeof code === "string" ? code : undefined,
+      };
+   }
+   return { name: "Error", message: String(err) };
+}
+
+function fromCassetteError(recorded: CassetteError): Error {
+   if (recorded.name === "DexscreenerTimeoutError") {
+      return new DexscreenerTimeoutError();
+   }
+
+   const err = new Error(recorded.message) as Error & { code?: string };
+   err.name = recorded.name;
+   if (recorded.code) err.code = recorded.code;
+   return err;
+}
+
+function createRecordingTransport(
+   inner: HttpTransport,
+   dir: string,
+): HttpTransport {
+   const record = createCassetteRecorder(dir);
+
+   return async (url, timeoutMs) => {
+      const startedAtMs = Date.now();
+      try {
+         const res = await inner(url, timeoutMs);
+         record({
+            url,
+            recordedAt: new Date(startedAtMs).toISOString(),
+            latencyMs: Date.now() - startedAtMs,
+            status: res.status,
+            body: res.body,
+         });
+         return res;
+      } catch (err) {
+         record({
+            url,
+            recordedAt: new Date(startedAtMs).toISOString(),
+            latencyMs: Date.now() - startedAtMs,
+            error: toCassetteError(err),
+         });
+         throw err;
+      }
+   };
+}
+
+async function createReplayTransport(
+   dir: string,
+   realtime: boolean,
+): Promise<HttpTransport> {
+   const player = await loadCassettePlayer(dir);
+
+   return async (url, timeoutMs) => {
+      const cassette = player.next(url);
+      if (!cassette) {
+         const err = new Error(
+            `回放目录中没有该请求的录制: ${url}`,
+         ) as Error & {
+            code?: string;
+         };
+         err.code = "ERR_CASSETTE_MISS";
+         throw err;
+      }
+
+      if (realtime) {
+         await sleep(Math.min(cassette.latencyMs, timeoutMs));
+      }
+
+      if (cassette.error) {
+         throw fromCassetteError(cassette.error);
+      }
+
+      return { status: cassette.status ?? 0, body: cassette.body ?? "" };
+   };
+}
+
+export type HttpMode = "live" | "record" | "replay";
+
+let transport: HttpTransport = httpsGetRaw;
+
+export async function configureHttpTransport(opts: {
+   mode: HttpMode;
+   cassetteDir: string;
+   replayRealtime: boolean;
+}) {
+   if (opts.mode === "record") {
+      transport = createRecordingTransport(httpsGetRaw, opts.cassetteDir);
+   } else if (opts.mode === "replay") {
+      transport = await createReplayTransport(
+         opts.cassetteDir,
+         opts.replayRealtime,
+      );
+   } else {
+      transport = httpsGetRaw;
+   }
+}
+
+async function observedTransport(
+   url: string,
+   timeoutMs: number,
+   feed: string,
+): Promise<HttpResponse> {
+   const endTimer = upstreamDuration.startTimer();
+   try {
+      const res = await transport(url, timeoutMs);
+      upstreamRequests.inc({ feed, status: String(res.status) });
+      return res;
+   } catch (err) {
+      const timedOut = err instanceof DexscreenerTimeoutError;
+      if (timedOut) upstreamTimeouts.inc({ feed });
+      upstreamRequests.inc({ feed, status: timedOut ? "timeout" : "error" });
+      throw err;
+   } finally {
+      endTimer({ feed });
+   }
+}
+
+/**
+ * 所有 Dexscreener GET 请求都经过按接口族的限流与熔断（见 upstream.ts）。
+ * `feed` 只用于指标标签，区分请求属于哪个数据源。
+ */
+export async function httpsGetJson(
+   url: string,
+   timeoutMs: number,
+   feed = "other",
+   opts: { willRetry?: (err: unknown) => boolean } = {},
+): Promise<unknown> {
+   const { status, body } = await guardUpstream(
+      url,
+      () => observedTransport(url, timeoutMs, feed),
+      opts,
+   );
+
+   if (status < 200 || status >= 300) {
+      throw new Error(`Dexscreener 响应异常: ${status}`);
+   }
+
+   try {
+      return JSON.parse(body) as unknown;
+   } catch (err) {
+      throw err instanceof Error
+         ? new Error("Dexscreener 返回 JSON 解析失败", {
+              cause: err,
+           })
+         : new Error("Dexscreener 返回 JSON 解析失败");
+   }
+}
+
+/** 只负责请求与重试，返回原始 JSON，由来源的 normalize 统一校验 */
+export async function fetchDexscreenerList(opts: {
+   url: string;
+   label: string;
+   maxAttempts?: number;
+}): Promise<unknown> {
+   const maxAttempts = opts.maxAttempts ?? 3;
+
+   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      try {
+         const timeoutMs = getDexscreenerTimeoutMs();
+         return await httpsGetJson(opts.url, timeoutMs, opts.label, {
+            willRetry: (err) =>
+               attempt < maxAttempts && isRetryableNetworkError(err),
+         });
+      } catch (err) {
+         if (attempt >= maxAttempts || !isRetryableNetworkError(err)) {
+            const prefix = `${opts.label} 请求失败（第 ${attempt}/${maxAttempts} 次）`;
+            throw err instanceof Error
+               ? new Error(prefix, { cause: err })
+               : new Error(prefix);
+         }
+
+         upstreamRetries.inc({ feed: opts.label });
+         const delayMs = 200 * Math.pow(2, attempt - 1);
+         await sleep(delayMs);
+      }
+   }
+
+   throw new Error(`${opts.label} 请求失败：未知原因`);
+}
@@ -1,28 +1,126 @@
-import https from "node:https";
+import { createHash, timingSafeEqual } from "node:crypto";
 import dotenv from "dotenv";
-import Fastify from "fastify";
+import Fastify, { type FastifyReply, type FastifyRequest } from "fastify";
 import cors from "@fastify/cors";
 import rateLimit from "@fastify/rate-limit";
 import { z } from "zod";
 import type {
+   AlertEventsResponse,
+   BubbleDeltaResponse,
+   BubbleFilters,
+   BubbleHistoryResponse,
    BubbleNode,
+   BubbleMode,
+   BubbleProvenance,
+   BubbleSortId,
+   BubbleStreamDiffEvent,
+   BubbleStreamSnapshotEvent,
+   DexscreenerBoostLink,
    DexscreenerTopBoost,
+   MarketMetrics,
    RecentBoostBubblesResponse,
+   TokenDetailResponse,
+   TokenHistoryResponse,
+   TokenPool,
+   TokenSearchResponse,
    TopBoostBubblesResponse,
+   WatchlistBubblesResponse,
+   WatchlistToken,
 } from "@memebubbles/shared";
+import {
+   CHAINS,
+   explorerPairUrl,
+   explorerTokenUrl,
+   getChainInfo,
+} from "@memebubbles/shared";
+import {
+   createAlertEngine,
+   listAlertSinks,
+   registerAlertSink,
+} from "./alerts.js";
+import { isNotModified, weakEtag } from "./conditional.js";
+import { diffBubbleNodes, isEmptyDiff } from "./diff.js";
+import { refreshEvents, type RefreshEvent } from "./events.js";
+import { applyBubbleFilters } from "./filters.js";
+import { createHistoryStore, type HistoryStore } from "./history.js";
+import { loadHotnessConfig, scoreHotness } from "./hotness.js";
+import {
+   configureHttpTransport,
+   getDexscreenerTimeoutMs,
+   httpsGetJson,
+   isRetryableNetworkError,
+   sleep,
+} from "./http.js";
+import { tokenIdentityKey } from "./keys.js";
+import {
+   addressKey,
+   normalizeAddress,
+   sameAddress,
+   validateAddress,
+} from "./chains.js";
+import {
+   configureMetaCache,
+   getCachedMeta,
+   getEnrichment,
+   getMetaRecord,
+   planMetaRefresh,
+   recordTokenMeta,
+   restoreMetaRecord,
+   type TokenMeta,
+   type TokenMetaRecord,
+} from "./meta-cache.js";
+import {
+   METRICS_CONTENT_TYPE,
+   cacheServes,
+   createGauge,
+   enrichmentLookups,
+   refreshDuration,
+   renderMetrics,
+   upstreamRetries,
+} from "./metrics.js";
+import {
+   getProvenance,
+   pruneProvenance,
+   recordProvenance,
+   restoreProvenance,
+} from "./provenance.js";
+import { SORT_IDS, rankBubbleNodes } from "./ranking.js";
+import {
+   mergeSearchDocument,
+   searchDocuments,
+   type SearchDocument,
+} from "./search.js";
+import {
+   SOURCE_IDS,
+   fetchSourceBoosts,
+   listSources,
+   registerDefaultSources,
+} from "./sources.js";
+import { createMemoryStorage, openStorage, type Storage } from "./storage.js";
+import {
+   configureUpstreamGuard,
+   getUpstreamStatus,
+   isUpstreamOpen,
+} from "./upstream.js";
+import {
+   getBoostSamples,
+   getBoostVelocity,
+   pruneBoostSamples,
+   recordBoostAmount,
+   restoreBoostSamples,
+   type BoostSample,
+} from "./velocity.js";
+import {
+   WATCHLIST_MAX_TOKENS,
+   createWatchlistStore,
+   summarizeWatchlist,
+} from "./watchlists.js";
+import { WEBHOOK_EVENT_TYPES, createWebhookDispatcher } from "./webhooks.js";
 
 if (process.env.NODE_ENV !== "production") {
    dotenv.config();
 }
 
-const DEXSCREENER_TOP_BOOSTS_URL =
-   "https://api.dexscreener.com/token-boosts/top/v1" as const;
-const DEXSCREENER_LATEST_BOOSTS_URL =
-   "https://api.dexscreener.com/token-boosts/latest/v1" as const;
-const DEXSCREENER_LATEST_ADS_URL =
-   "https://api.dexscreener.com/ads/latest/v1" as const;
-const DEXSCREENER_LATEST_TOKEN_PROFILES_URL =
-   "https://api.dexscreener.com/token-profiles/latest/v1" as const;
 const DEXSCREENER_LATEST_TOKENS_BASE_URL =
    "https://api.dexscreener.com/latest/dex/tokens" as const;
 const DEXSCREENER_LATEST_PAIRS_BASE_URL =
@@ -32,61 +130,191 @@ const envSchema = z.object({
    PORT: z.coerce.number().int().positive().optional(),
    HOST: z.string().optional(),
    FRONTEND_ORIGIN: z.string().optional(),
+   DEXSCREENER_SOURCE_MODE: z.enum(["live", "fixture"]).default("live"),
+   DEXSCREENER_FIXTURE_DIR: z.string().default("fixtures/dexscreener"),
+   DEXSCREENER_HTTP_MODE: z.enum(["live", "record", "replay"]).default("live"),
+   DEXSCREENER_CASSETTE_DIR: z.string().default("cassettes"),
+   STORAGE_DRIVER: z.enum(["memory", "json", "sqlite"]).default("memory"),
+   STORAGE_PATH: z.string().optional(),
+   HISTORY_INTERVAL_MS: z.coerce.number().int().positive().default(60_000),
+   HISTORY_FULL_RETENTION_HOURS: z.coerce.number().positive().default(6),
+   HISTORY_RETENTION_DAYS: z.coerce.number().positive().default(7),
+   HISTORY_COARSE_STEP_MINUTES: z.coerce.number().positive().default(15),
+   HOTNESS_CONFIG_PATH: z.string().default("config/hotness.json"),
+   DEXSCREENER_LIST_RPM: z.coerce.number().positive().default(60),
+   DEXSCREENER_DEX_RPM: z.coerce.number().positive().default(300),
+   DEXSCREENER_BREAKER_THRESHOLD: z.coerce.number().int().min(1).default(5),
+   DEXSCREENER_BREAKER_COOLDOWN_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(30_000),
+   META_CACHE_MAX_ENTRIES: z.coerce.number().int().positive().default(2000),
+   META_STATIC_TTL_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(24 * 60 * 60 * 1000),
+   META_VOLATILE_TTL_MS: z.coerce
+      .number()
+      .int()
+      .positive()
+      .default(3 * 60_000),
+   ADMIN_TOKEN: z.string().min(16).optional(),
+   WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(20).default(6),
+   WEBHOOK_TIMEOUT_MS: z.coerce.number().int().positive().default(5000),
+   DEXSCREENER_REPLAY_REALTIME: z
+      .enum(["true", "false"])
+      .default("false")
+      .transform((v) => v === "true"),
 });
 
 type Env = z.infer<typeof envSchema>;
 
+/** 两边先取摘要再做常量时间比较，长度不同也不会提前返回 */
+function isAdminAuthorized(header: string | undefined, token: string) {
+   const digest = (v: string) => createHash("sha256").update(v).digest();
+   return timingSafeEqual(digest(header ?? ""), digest(`Bearer ${token}`));
+}
+
+function boostIdentityKey(boost: DexscreenerTopBoost) {
+   return tokenIdentityKey(boost.chainId, boost.tokenAddress);
+}
+
 function shortAddress(address: string) {
    if (address.length <= 12) return address;
    return `${address.slice(0, 4)}…${address.slice(-4)}`;
 }
 
-type TokenMeta = {
-   name?: string;
-   symbol?: string;
-   imageUrl?: string;
-   headerImageUrl?: string;
-   marketCap?: number;
-   pairAddress?: string;
-};
+const windowNumbersSchema = z.object({
+   m5: z.number().optional(),
+   h1: z.number().optional(),
+   h6: z.number().optional(),
+   h24: z.number().optional(),
+});
+
+const txnCountsSchema = z.object({
+   buys: z.number(),
+   sells: z.number(),
+});
 
-const boostLinkSchema = z.object({
-   url: z.string().url(),
-   type: z.string().optional(),
-   label: z.string().optional(),
+const dexPairTokenSchema = z.object({
+   address: z.string(),
+   name: z.string().optional(),
+   symbol: z.string().optional(),
 });
 
-const boostBaseSchema = z.object({
-   url: z.string().url(),
+const dexPairSchema = z.object({
    chainId: z.string(),
-   tokenAddress: z.string(),
-   description: z.string().optional(),
-   icon: z.string().optional(),
-   header: z.string().optional(),
-   openGraph: z.string().optional(),
-   links: z.array(boostLinkSchema).optional(),
-   totalAmount: z.number().optional(),
-   amount: z.number().optional(),
+   dexId: z.string().optional(),
+   url: z.string().optional(),
+   pairAddress: z.string(),
+   baseToken: dexPairTokenSchema,
+   quoteToken: dexPairTokenSchema.optional(),
+   info: z
+      .object({
+         imageUrl: z.string().url().optional(),
+         header: z.string().url().optional(),
+         websites: z
+            .array(z.object({ url: z.string(), label: z.string().optional() }))
+            .optional(),
+         socials: z
+            .array(z.object({ url: z.string(), type: z.string().optional() }))
+            .optional(),
+      })
+      .optional(),
+   priceUsd: z.string().optional(),
+   priceChange: windowNumbersSchema.optional(),
+   volume: windowNumbersSchema.optional(),
+   txns: z
+      .object({
+         m5: txnCountsSchema.optional(),
+         h1: txnCountsSchema.optional(),
+         h6: txnCountsSchema.optional(),
+         h24: txnCountsSchema.optional(),
+      })
+      .optional(),
+   marketCap: z.number().optional(),
+   fdv: z.number().optional(),
+   liquidity: z
+      .object({
+         usd: z.number().optional(),
+      })
+      .optional(),
+   pairCreatedAt: z.number().optional(),
+});
+
+const dexPairsResponseSchema = z.object({
+   pairs: z.array(dexPairSchema),
 });
 
+type DexPair = z.infer<typeof dexPairSchema>;
+
+function toFiniteNumber(v: string | undefined) {
+   if (v === undefined) return undefined;
+   const n = Number(v);
+   return Number.isFinite(n) ? n : undefined;
+}
+
+function pairToMarketMetrics(p: DexPair): MarketMetrics {
+   return {
+      priceUsd: toFiniteNumber(p.priceUsd),
+      liquidityUsd: p.liquidity?.usd,
+      priceChange: p.priceChange ?? {},
+      volume: p.volume ?? {},
+      txns: p.txns ?? {},
+   };
+}
+
+function pairToTokenMeta(p: DexPair): TokenMeta {
+   return {
+      name: p.baseToken.name,
+      symbol: p.baseToken.symbol,
+      imageUrl: p.info?.imageUrl,
+      headerImageUrl: p.info?.header,
+      marketCap: p.marketCap ?? p.fdv,
+      pairAddress: p.pairAddress,
+      pairCreatedAtMs: p.pairCreatedAt,
+      metrics: pairToMarketMetrics(p),
+   };
+}
+
+function pairToTokenPool(p: DexPair): TokenPool {
+   return {
+      chainId: p.chainId,
+      dexId: p.dexId,
+      pairAddress: p.pairAddress,
+      url: p.url,
+      explorerUrl: explorerPairUrl(p.chainId, p.pairAddress),
+      baseToken: p.baseToken,
+      quoteToken: p.quoteToken,
+      marketCap: p.marketCap ?? p.fdv,
+      pairCreatedAt:
+         p.pairCreatedAt !== undefined
+            ? new Date(p.pairCreatedAt).toISOString()
+            : undefined,
+      metrics: pairToMarketMetrics(p),
+   };
+}
+
+function toBubbleLink(l: DexscreenerBoostLink): DexscreenerBoostLink {
+   const type = l.type;
+   const label =
+      l.label ??
+      (type === "twitter" ? "X" : type === "telegram" ? "Telegram" : undefined);
+   return { url: l.url, type, label };
+}
+
+/** 元数据取自 enrichTokenMeta 维护的缓存 */
 function mapBoostToBubbleNode(
    boost: DexscreenerTopBoost,
    rank: number,
-   meta: TokenMeta | undefined,
 ): BubbleNode {
    const id = `${boost.chainId}:${boost.tokenAddress}`;
+   const tokenKey = boostIdentityKey(boost);
+   const meta = getCachedMeta(tokenKey);
 
-   const links = (boost.links ?? []).map((l) => {
-      const type = l.type;
-      const label =
-         l.label ??
-         (type === "twitter"
-            ? "X"
-            : type === "telegram"
-              ? "Telegram"
-              : undefined);
-      return { url: l.url, type, label };
-   });
+   const links = (boost.links ?? []).map(toBubbleLink);
 
    const symbol = meta?.symbol;
    const name = meta?.name;
@@ -102,12 +330,20 @@ function mapBoostToBubbleNode(
       name,
       marketCap: meta?.marketCap,
       pairAddress: meta?.pairAddress,
+      pairCreatedAt:
+         meta?.pairCreatedAtMs !== undefined
+            ? new Date(meta.pairCreatedAtMs).toISOString()
+            : undefined,
+      metrics: meta?.metrics,
       score: boost.totalAmount,
+      boostVelocity: getBoostVelocity(tokenKey, Date.now()),
+      enrichment: getEnrichment(tokenKey, Date.now()),
       url: boost.url,
       description: boost.description,
       headerImageUrl: meta?.headerImageUrl ?? boost.header,
       iconUrl: meta?.imageUrl ?? boostIconUrl,
       links,
+      provenance: getProvenance(tokenKey),
    };
 }
 
@@ -119,8 +355,8 @@ type CacheState = {
 type RecentEntry = {
    key: string;
    boost: DexscreenerTopBoost;
+   firstSeenAtMs?: number;
    lastSeenAtMs: number;
-   meta?: TokenMeta;
 };
 
 type RecentCacheState = {
@@ -130,6 +366,7 @@ type RecentCacheState = {
 
 type Cache = {
    latest: CacheState | null;
+   revisions: CacheState[];
    inFlight: Promise<CacheState> | null;
    lastError: unknown;
    lastAttemptedAtMs: number | null;
@@ -137,368 +374,384 @@ type Cache = {
 
 const cache: Cache = {
    latest: null,
+   revisions: [],
    inFlight: null,
    lastError: null,
    lastAttemptedAtMs: null,
 };
 
 const RECENT_CAPACITY = 100;
+/** 定时刷新 top 时拉取的数量 */
+const TOP_REFRESH_LIMIT = 30;
 const RECENT_TTL_MS = 6 * 60 * 60 * 1000;
 
 const recentCache: {
    latest: RecentCacheState | null;
+   revisions: RecentCacheState[];
    inFlight: Promise<RecentCacheState> | null;
    lastError: unknown;
    lastAttemptedAtMs: number | null;
    entries: Map<string, RecentEntry>;
 } = {
    latest: null,
+   revisions: [],
    inFlight: null,
    lastError: null,
    lastAttemptedAtMs: null,
    entries: new Map(),
 };
 
-const querySchema = z.object({
-   limit: z.coerce.number().int().min(1).max(100).default(30),
-});
+createGauge(
+   "memebubbles_recent_window_size",
+   "recent 窗口中的 token 数量",
+   () => recentCache.entries.size,
+);
+
+createGauge(
+   "memebubbles_cache_age_seconds",
+   "各模式最近一次成功刷新距今的秒数",
+   () =>
+      [
+         { mode: "top", latest: cache.latest },
+         { mode: "recent", latest: recentCache.latest },
+      ].flatMap(({ mode, latest }) =>
+         latest
+            ? [
+                 {
+                    labels: { mode },
+                    value: (Date.now() - latest.updatedAtMs) / 1000,
+                 },
+              ]
+            : [],
+      ),
+);
 
-const recentQuerySchema = z.object({
-   limit: z.coerce
-      .number()
-      .int()
-      .min(1)
-      .max(RECENT_CAPACITY)
-      .default(RECENT_CAPACITY),
-});
+/** 保留最近几次刷新结果，用于 `since=` 增量响应 */
+const MAX_REVISIONS = 20;
 
-function sleep(ms: number) {
-   return new Promise((resolve) => setTimeout(resolve, ms));
+function pushRevision(revisions: CacheState[], state: CacheState) {
+   revisions.push(state);
+   if (revisions.length > MAX_REVISIONS) revisions.shift();
 }
 
-function getErrorCode(err: unknown) {
-   if (typeof err !== "object" || err === null) return undefined;
+let storage: Storage = createMemoryStorage();
 
-   if ("code" in err) {
-      const code = (err as { code?: unknown }).code;
-      return typeof code === "string" ? code : undefined;
-   }
+const RECENT_ENTRIES_COLLECTION = "recent-entries";
+const RECENT_STATE_COLLECTION = "recent-state";
+const PROVENANCE_COLLECTION = "provenance";
+const BOOST_SAMPLES_COLLECTION = "boost-samples";
+const TOKEN_META_COLLECTION = "token-meta";
 
-   if ("cause" in err) {
-      const cause = (err as { cause?: unknown }).cause;
-      if (typeof cause === "object" && cause !== null && "code" in cause) {
-         const code = (cause as { code?: unknown }).code;
-         return typeof code === "string" ? code : undefined;
-      }
-   }
+let history: HistoryStore | null = null;
 
-   return undefined;
-}
+type StoredProvenance = {
+   tokenKey: string;
+   records: BubbleProvenance[];
+};
 
-function isRetryableNetworkError(err: unknown) {
-   if (err instanceof DexscreenerTimeoutError) return true;
+type StoredBoostSamples = {
+   tokenKey: string;
+   samples: BoostSample[];
+   lastSeenAtMs: number;
+};
 
-   const code = getErrorCode(err);
-   return (
-      code === "ECONNRESET" ||
-      code === "ETIMEDOUT" ||
-      code === "ENOTFOUND" ||
-      code === "EAI_AGAIN"
+type StoredTokenMeta = {
+   tokenKey: string;
+   record: TokenMetaRecord;
+};
+
+function csvParamSchema<T extends z.ZodTypeAny>(item: T) {
+   return z.preprocess(
+      (v) =>
+         typeof v === "string"
+            ? v
+                 .split(",")
+                 .map((x) => x.trim())
+                 .filter(Boolean)
+            : v,
+      z.array(item).min(1).optional(),
    );
 }
 
-class DexscreenerTimeoutError extends Error {
-   public code = "ETIMEDOUT" as const;
+const sourcesParamSchema = csvParamSchema(z.enum(SOURCE_IDS));
+
+const booleanParamSchema = z
+   .enum(["true", "false", "1", "0"])
+   .transform((v) => v === "true" || v === "1")
+   .optional();
+
+const filterParamsShape = {
+   chainId: csvParamSchema(z.string().min(1)),
+   minMarketCap: z.coerce.number().nonnegative().optional(),
+   maxMarketCap: z.coerce.number().nonnegative().optional(),
+   minLiquidity: z.coerce.number().nonnegative().optional(),
+   maxAgeMinutes: z.coerce.number().positive().optional(),
+   hasSocials: booleanParamSchema,
+   sources: sourcesParamSchema,
+};
 
-   constructor() {
-      super("Dexscreener 请求超时");
-      this.name = "DexscreenerTimeoutError";
-   }
+function isMarketCapRangeValid(q: {
+   minMarketCap?: number;
+   maxMarketCap?: number;
+}) {
+   return (
+      q.minMarketCap === undefined ||
+      q.maxMarketCap === undefined ||
+      q.minMarketCap <= q.maxMarketCap
+   );
 }
 
-type HttpsAgentWithTimeout = https.Agent & { timeout?: number };
+const marketCapRangeIssue = {
+   message: "minMarketCap 不能大于 maxMarketCap",
+   path: ["minMarketCap"],
+};
 
-const httpsAgent: HttpsAgentWithTimeout = new https.Agent({
-   keepAlive: true,
-   maxSockets: 16,
+const timeParamSchema = z.preprocess((v) => {
+   if (typeof v !== "string") return v;
+   if (/^\d+$/.test(v)) return Number(v);
+   const ms = Date.parse(v);
+   return Number.isNaN(ms) ? v : ms;
+}, z.number().int().nonnegative().optional());
+
+const querySchema = z
+   .object({
+      limit: z.coerce.number().int().min(1).max(100).default(30),
+      sort: z.enum(SORT_IDS).optional(),
+      since: timeParamSchema,
+      ...filterParamsShape,
+   })
+   .refine(isMarketCapRangeValid, marketCapRangeIssue);
+
+const recentQuerySchema = z
+   .object({
+      limit: z.coerce
+         .number()
+         .int()
+         .min(1)
+         .max(RECENT_CAPACITY)
+         .default(RECENT_CAPACITY),
+      sort: z.enum(SORT_IDS).optional(),
+      since: timeParamSchema,
+      ...filterParamsShape,
+   })
+   .refine(isMarketCapRangeValid, marketCapRangeIssue);
+
+const streamQuerySchema = z
+   .object({
+      mode: z.enum(["top", "recent"]).default("recent"),
+      limit: z.coerce
+         .number()
+         .int()
+         .min(1)
+         .max(RECENT_CAPACITY)
+         .default(RECENT_CAPACITY),
+      sort: z.enum(SORT_IDS).optional(),
+      ...filterParamsShape,
+   })
+   .refine(isMarketCapRangeValid, marketCapRangeIssue);
+
+const STREAM_HEARTBEAT_MS = 15_000;
+
+const DURATION_UNITS_MS = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+
+const durationParamSchema = z.preprocess((v) => {
+   if (typeof v !== "string") return v;
+   const m = /^(\d+)([smhd])?$/.exec(v.trim());
+   if (!m) return v;
+   const unit = (m[2] ?? "s") as keyof typeof DURATION_UNITS_MS;
+   return Number(m[1]) * DURATION_UNITS_MS[unit];
+}, z.number().int().positive().optional());
+
+const bubbleModeSchema = z.enum(["top", "recent"]);
+
+const HISTORY_MAX_POINTS = 1000;
+
+const historyQuerySchema = z.object({
+   from: timeParamSchema,
+   to: timeParamSchema,
+   step: durationParamSchema,
+   mode: bubbleModeSchema.default("recent"),
 });
 
-async function httpsGetJson(url: string, timeoutMs: number): Promise<unknown> {
-   return await new Promise((resolve, reject) => {
-      const req = https.request(
-         url,
-         {
-            method: "GET",
-            headers: {
-               accept: "application/json",
-               "user-agent": "memebubbles/0.0.0",
-            },
-            agent: httpsAgent,
-         },
-         (res) => {
-            const statusCode = res.statusCode ?? 0;
-
-            res.setEncoding("utf8");
-
-            let body = "";
-            res.on("data", (chunk) => {
-               body += chunk;
-            });
-
-            res.on("end", () => {
-               clearTimeout(hardTimeoutId);
-
-               if (statusCode < 200 || statusCode >= 300) {
-                  reject(new Error(`Dexscreener 响应异常: ${statusCode}`));
-                  return;
-               }
-
-               try {
-                  resolve(JSON.parse(body) as unknown);
-               } catch (err) {
-                  reject(
-                     err instanceof Error
-                        ? new Error("Dexscreener 返回 JSON 解析失败", {
-                             cause: err,
-                          })
-                        : new Error("Dexscreener 返回 JSON 解析失败"),
-                  );
-               }
-            });
-         },
-      );
+const tokenHistoryQuerySchema = z.object({
+   from: timeParamSchema,
+   to: timeParamSchema,
+   mode: bubbleModeSchema.optional(),
+});
 
-      const hardTimeoutId = setTimeout(() => {
-         req.destroy(new DexscreenerTimeoutError());
-      }, timeoutMs);
+/** 按链校验地址格式，避免畸形地址进入 key 与上游请求 */
+function refineAddress(
+   chainId: string,
+   address: string,
+   ctx: z.RefinementCtx,
+   path: Array<string | number>,
+) {
+   const error = validateAddress(chainId, address);
+   if (error)
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: error, path });
+}
 
-      req.on("error", (err) => {
-         clearTimeout(hardTimeoutId);
-         reject(err);
-      });
+const tokenParamsSchema = z
+   .object({
+      chainId: z.string().min(1),
+      address: z.string().min(1),
+   })
+   .superRefine((v, ctx) =>
+      refineAddress(v.chainId, v.address, ctx, ["address"]),
+   );
 
-      req.end();
+const watchTokenSchema = z
+   .string()
+   .trim()
+   .regex(/^[^:\s]+:\S+$/, "格式应为 chainId:tokenAddress")
+   .transform((v, ctx) => {
+      const i = v.indexOf(":");
+      const chainId = v.slice(0, i);
+      const tokenAddress = v.slice(i + 1);
+      refineAddress(chainId, tokenAddress, ctx, []);
+      return { chainId, tokenAddress: normalizeAddress(chainId, tokenAddress) };
    });
-}
-
-async function fetchDexscreenerList<T>(opts: {
-   url: string;
-   schema: z.ZodType<T>;
-   label: string;
-   maxAttempts?: number;
-}): Promise<T> {
-   const maxAttempts = opts.maxAttempts ?? 3;
 
-   for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-      try {
-         const timeoutMs = Number(process.env.DEXSCREENER_TIMEOUT_MS ?? 8000);
-         const json = await httpsGetJson(opts.url, timeoutMs);
-         return opts.schema.parse(json);
-      } catch (err) {
-         if (attempt >= maxAttempts || !isRetryableNetworkError(err)) {
-            const prefix = `${opts.label} 请求失败（第 ${attempt}/${maxAttempts} 次）`;
-            throw err instanceof Error
-               ? new Error(prefix, { cause: err })
-               : new Error(prefix);
-         }
+const watchlistNameSchema = z.string().trim().min(1).max(60);
 
-         const delayMs = 200 * Math.pow(2, attempt - 1);
-         await sleep(delayMs);
-      }
-   }
+const watchlistCreateSchema = z.object({
+   name: watchlistNameSchema,
+   tokens: z.array(watchTokenSchema).max(WATCHLIST_MAX_TOKENS).optional(),
+});
 
-   throw new Error(`${opts.label} 请求失败：未知原因`);
-}
+const watchlistUpdateSchema = z.object({
+   name: watchlistNameSchema,
+});
 
-async function fetchTopBoostsFromDexscreener(): Promise<DexscreenerTopBoost[]> {
-   const arrSchema = z.array(
-      boostBaseSchema.extend({ totalAmount: z.number() }),
-   );
-   return await fetchDexscreenerList({
-      url: DEXSCREENER_TOP_BOOSTS_URL,
-      schema: arrSchema,
-      label: "Dexscreener top boosts",
-   });
-}
+const watchlistTokensSchema = z.object({
+   tokens: z.array(watchTokenSchema).min(1).max(WATCHLIST_MAX_TOKENS),
+});
 
-function normalizeBoost(
-   base: z.infer<typeof boostBaseSchema>,
-): DexscreenerTopBoost {
-   return {
-      ...base,
-      totalAmount: typeof base.totalAmount === "number" ? base.totalAmount : 0,
-   };
-}
+const watchlistParamsSchema = z.object({
+   id: z.string().min(1),
+});
 
-async function fetchLatestBoostsFromDexscreener(): Promise<
-   DexscreenerTopBoost[]
-> {
-   const arrSchema = z.array(boostBaseSchema);
-   const parsed = await fetchDexscreenerList({
-      url: DEXSCREENER_LATEST_BOOSTS_URL,
-      schema: arrSchema,
-      label: "Dexscreener latest boosts",
-   });
-   return parsed.map((b) => normalizeBoost(b));
-}
+const watchlistTokenParamsSchema = z.object({
+   id: z.string().min(1),
+   token: watchTokenSchema,
+});
 
-async function fetchLatestAdsFromDexscreener(): Promise<DexscreenerTopBoost[]> {
-   const arrSchema = z.array(
-      z.object({
-         url: z.string().url(),
-         chainId: z.string(),
-         tokenAddress: z.string(),
-         date: z.string().optional(),
-         type: z.string().optional(),
-         impressions: z.number().optional(),
-         durationHours: z.number().optional(),
-      }),
-   );
-   const parsed = await fetchDexscreenerList({
-      url: DEXSCREENER_LATEST_ADS_URL,
-      schema: arrSchema,
-      label: "Dexscreener latest ads",
-   });
-   return parsed.map((ad) => ({
-      url: ad.url,
-      chainId: ad.chainId,
-      tokenAddress: ad.tokenAddress,
-      totalAmount: 0,
-   }));
-}
+const alertTriggerSchema = z.discriminatedUnion("kind", [
+   z.object({ kind: z.literal("match") }),
+   z.object({ kind: z.literal("newToken") }),
+   z.object({
+      kind: z.literal("enteredTop"),
+      rank: z.number().int().min(1).max(100),
+   }),
+   z.object({ kind: z.literal("scoreJump"), minDelta: z.number().positive() }),
+]);
+
+const alertConditionsSchema = z
+   .object({
+      chainId: z.array(z.string().min(1)).min(1).optional(),
+      minMarketCap: z.number().nonnegative().optional(),
+      maxMarketCap: z.number().nonnegative().optional(),
+      minLiquidity: z.number().nonnegative().optional(),
+      maxAgeMinutes: z.number().positive().optional(),
+      hasSocials: z.boolean().optional(),
+      sources: z.array(z.enum(SOURCE_IDS)).min(1).optional(),
+      linkTypes: z.array(z.string().min(1)).min(1).optional(),
+   })
+   .refine(isMarketCapRangeValid, marketCapRangeIssue);
+
+const alertRuleShape = {
+   name: z.string().trim().min(1).max(80),
+   enabled: z.boolean(),
+   modes: z.array(bubbleModeSchema).min(1),
+   trigger: alertTriggerSchema,
+   conditions: alertConditionsSchema,
+   cooldownMinutes: z
+      .number()
+      .nonnegative()
+      .max(7 * 24 * 60),
+   sinks: z.array(z.string().min(1)),
+};
 
-async function fetchLatestTokenProfilesFromDexscreener(): Promise<
-   DexscreenerTopBoost[]
-> {
-   const arrSchema = z.array(boostBaseSchema);
-   const parsed = await fetchDexscreenerList({
-      url: DEXSCREENER_LATEST_TOKEN_PROFILES_URL,
-      schema: arrSchema,
-      label: "Dexscreener latest token profiles",
-   });
-   return parsed.map((p) => normalizeBoost(p));
-}
+const alertRuleCreateSchema = z.object({
+   ...alertRuleShape,
+   enabled: alertRuleShape.enabled.default(true),
+   modes: alertRuleShape.modes.default(["recent"]),
+   conditions: alertRuleShape.conditions.default({}),
+   cooldownMinutes: alertRuleShape.cooldownMinutes.default(60),
+   sinks: alertRuleShape.sinks.default(["log"]),
+});
 
-async function fetchTokenMetaMap(
-   tokenAddresses: string[],
-): Promise<Map<string, TokenMeta>> {
-   if (tokenAddresses.length === 0) return new Map();
-
-   const schema = z.object({
-      pairs: z.array(
-         z.object({
-            chainId: z.string(),
-            pairAddress: z.string(),
-            baseToken: z.object({
-               address: z.string(),
-               name: z.string().optional(),
-               symbol: z.string().optional(),
-            }),
-            info: z
-               .object({
-                  imageUrl: z.string().url().optional(),
-                  header: z.string().url().optional(),
-               })
-               .optional(),
-            marketCap: z.number().optional(),
-            fdv: z.number().optional(),
-            liquidity: z
-               .object({
-                  usd: z.number().optional(),
-               })
-               .optional(),
-         }),
-      ),
-   });
+const alertRuleUpdateSchema = z.object(alertRuleShape).partial();
 
-   const uniq = new Map<string, string>();
-   for (const addr of tokenAddresses) {
-      const key = addr.toLowerCase();
-      if (!uniq.has(key)) {
-         uniq.set(key, addr);
-      }
-   }
+const alertParamsSchema = z.object({
+   id: z.string().min(1),
+});
 
-   const uniqAddresses = Array.from(uniq.values());
-   if (uniqAddresses.length === 0) return new Map();
+const alertEventsQuerySchema = z.object({
+   ruleId: z.string().min(1).optional(),
+   since: timeParamSchema,
+   limit: z.coerce.number().int().min(1).max(500).default(100),
+});
 
-   const rawBatchSize = Number(process.env.DEXSCREENER_TOKENS_BATCH_SIZE ?? 30);
-   const batchSize =
-      Number.isFinite(rawBatchSize) && rawBatchSize > 0 ? rawBatchSize : 30;
+function unknownAlertSinks(ids: string[] | undefined) {
+   const known = new Set(listAlertSinks());
+   return (ids ?? []).filter((id) => !known.has(id));
+}
 
-   const batches: string[][] = [];
-   for (let i = 0; i < uniqAddresses.length; i += batchSize) {
-      batches.push(uniqAddresses.slice(i, i + batchSize));
-   }
+const webhookShape = {
+   url: z
+      .string()
+      .url()
+      .refine((u) => /^https?:\/\//i.test(u), "仅支持 http / https 地址"),
+   secret: z.string().min(16).max(200),
+   events: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+   enabled: z.boolean(),
+};
 
-   const timeoutMs = Number(process.env.DEXSCREENER_TIMEOUT_MS ?? 8000);
-
-   const fetchBatch = async (batch: string[]) => {
-      const maxAttempts = 2;
-
-      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
-         try {
-            const url = `${DEXSCREENER_LATEST_TOKENS_BASE_URL}/${batch.join(",")}`;
-            const json = await httpsGetJson(url, timeoutMs);
-            const parsed = schema.parse(json);
-
-            const bestByAddr = new Map<
-               string,
-               { usd: number; meta: TokenMeta }
-            >();
-
-            for (const p of parsed.pairs) {
-               const addr = p.baseToken.address.toLowerCase();
-               const usd = p.liquidity?.usd ?? 0;
-
-               const meta: TokenMeta = {
-                  name: p.baseToken.name,
-                  symbol: p.baseToken.symbol,
-                  imageUrl: p.info?.imageUrl,
-                  headerImageUrl: p.info?.header,
-                  marketCap: p.marketCap ?? p.fdv,
-                  pairAddress: p.pairAddress,
-               };
-
-               const existing = bestByAddr.get(addr);
-               if (!existing || usd > existing.usd) {
-                  bestByAddr.set(addr, { usd, meta });
-               }
-            }
+const webhookCreateSchema = z.object({
+   ...webhookShape,
+   secret: webhookShape.secret.optional(),
+   enabled: webhookShape.enabled.default(true),
+});
 
-            const out = new Map<string, TokenMeta>();
-            for (const [addr, v] of bestByAddr) {
-               out.set(addr, v.meta);
-            }
-            return out;
-         } catch (err) {
-            if (attempt >= maxAttempts || !isRetryableNetworkError(err)) {
-               throw err;
-            }
-            const delayMs = 200 * Math.pow(2, attempt - 1);
-            await sleep(delayMs);
-         }
-      }
+const webhookUpdateSchema = z.object(webhookShape).partial();
 
-      return new Map<string, TokenMeta>();
-   };
+const webhookParamsSchema = z.object({
+   id: z.string().min(1),
+});
 
-   const batchResults = await mapLimit(batches, 3, async (batch) => {
-      try {
-         return await fetchBatch(batch);
-      } catch {
-         return new Map<string, TokenMeta>();
-      }
-   }).catch(() => []);
+const webhookLogQuerySchema = z.object({
+   webhookId: z.string().min(1).optional(),
+   limit: z.coerce.number().int().min(1).max(500).default(100),
+});
 
-   const out = new Map<string, TokenMeta>();
-   for (const batchMap of batchResults) {
-      for (const [addr, meta] of batchMap) {
-         out.set(addr, meta);
-      }
-   }
+const searchQuerySchema = z.object({
+   q: z.string().trim().min(1).max(100),
+   limit: z.coerce.number().int().min(1).max(100).default(20),
+});
 
-   return out;
+/** 指标标签：元数据补全请求 */
+const TOKENS_FEED = "Dexscreener tokens";
+const PAIRS_FEED = "Dexscreener pairs";
+
+/**
+ * 拉取某个 token 在指定链上的全部交易对（作为 base 或 quote），按流动性从高到低。
+ */
+async function fetchTokenPools(chainId: string, tokenAddress: string) {
+   const url = `${DEXSCREENER_LATEST_TOKENS_BASE_URL}/${tokenAddress}`;
+   const json = await httpsGetJson(url, getDexscreenerTimeoutMs(), TOKENS_FEED);
+   const parsed = dexPairsResponseSchema.parse(json);
+
+   const chain = chainId.toLowerCase();
+   return parsed.pairs
+      .filter(
+         (p) =>
+            p.chainId.toLowerCase() === chain &&
+            (sameAddress(chain, p.baseToken.address, tokenAddress) ||
+               (p.quoteToken !== undefined &&
+                  sameAddress(chain, p.quoteToken.address, tokenAddress))),
+      )
+      .sort((a, b) => (b.liquidity?.usd ?? 0) - (a.liquidity?.usd ?? 0));
 }
 
 function parsePairAddressFromUrl(url: string, chainId: string) {
@@ -528,11 +781,9 @@ type TokenKey =
      };
 
 function tokenKeyToString(k: TokenKey) {
-   if (k.kind === "pair") {
-      return `${k.chainId.toLowerCase()}:${k.pairAddress.toLowerCase()}`;
-   }
+   if (k.kind === "pair") return pairKeyToString(k);
 
-   return `${k.chainId.toLowerCase()}:token:${k.tokenAddress.toLowerCase()}`;
+   return `${k.chainId.toLowerCase()}:token:${addressKey(k.chainId, k.tokenAddress)}`;
 }
 
 function boostToTokenKey(boost: DexscreenerTopBoost) {
@@ -554,6 +805,10 @@ function boostToTokenKey(boost: DexscreenerTopBoost) {
 
 type PairKey = { chainId: string; pairAddress: string };
 
+/**
+ * boost 链接里的交易对地址已被 Dexscreener 转成小写（Solana 也是），
+ * 只能按不区分大小写匹配；拿到交易对后再用 baseToken 核对是不是同一个 token。
+ */
 function pairKeyToString(p: PairKey) {
    return `${p.chainId.toLowerCase()}:${p.pairAddress.toLowerCase()}`;
 }
@@ -582,139 +837,218 @@ async function mapLimit<T, R>(
    return results;
 }
 
-async function fetchPairsMetaMap(
-   pairs: PairKey[],
-): Promise<Map<string, TokenMeta>> {
-   const schema = z.object({
-      pairs: z.array(
-         z.object({
-            chainId: z.string(),
-            pairAddress: z.string(),
-            baseToken: z.object({
-               address: z.string(),
-               name: z.string().optional(),
-               symbol: z.string().optional(),
-            }),
-            info: z
-               .object({
-                  imageUrl: z.string().url().optional(),
-                  header: z.string().url().optional(),
-               })
-               .optional(),
-            marketCap: z.number().optional(),
-            fdv: z.number().optional(),
-         }),
-      ),
-   });
-
-   const timeoutMs = Number(process.env.DEXSCREENER_TIMEOUT_MS ?? 8000);
+function batchSizeFromEnv(name: string) {
+   const raw = Number(process.env[name] ?? 30);
+   return Number.isFinite(raw) && raw > 0 ? raw : 30;
+}
 
-   const uniq = new Map<string, PairKey>();
-   for (const p of pairs) {
-      uniq.set(pairKeyToString(p), p);
+function chunk<T>(items: T[], size: number) {
+   const out: T[][] = [];
+   for (let i = 0; i < items.length; i += size) {
+      out.push(items.slice(i, i + size));
    }
+   return out;
+}
 
-   const uniqPairs = Array.from(uniq.values());
+/** 请求 tokens / pairs 接口，网络错误时重试一次 */
+async function fetchDexPairs(url: string, feed: string): Promise<DexPair[]> {
+   const maxAttempts = 2;
 
-   const metas = await mapLimit(uniqPairs, 6, async (p) => {
+   for (let attempt = 1; ; attempt++) {
       try {
-         const url = `${DEXSCREENER_LATEST_PAIRS_BASE_URL}/${p.chainId}/${p.pairAddress}`;
-         const json = await httpsGetJson(url, timeoutMs);
-         const parsed = schema.parse(json);
-         const first = parsed.pairs[0];
-         if (!first) return null;
-
-         const addr = first.baseToken.address.toLowerCase();
-         const meta: TokenMeta = {
-            name: first.baseToken.name,
-            symbol: first.baseToken.symbol,
-            imageUrl: first.info?.imageUrl,
-            headerImageUrl: first.info?.header,
-            marketCap: first.marketCap ?? first.fdv,
-            pairAddress: first.pairAddress,
-         };
-
-         return { addr, meta };
-      } catch {
-         return null;
+         const json = await httpsGetJson(url, getDexscreenerTimeoutMs(), feed, {
+            willRetry: (err) =>
+               attempt < maxAttempts && isRetryableNetworkError(err),
+         });
+         return dexPairsResponseSchema.parse(json).pairs;
+      } catch (err) {
+         if (attempt >= maxAttempts || !isRetryableNetworkError(err)) {
+            throw err;
+         }
+         upstreamRetries.inc({ feed });
+         await sleep(200 * Math.pow(2, attempt - 1));
       }
-   }).catch(() => []);
+   }
+}
 
-   const out = new Map<string, TokenMeta>();
-   for (const m of metas) {
-      if (!m) continue;
-      out.set(m.addr, m.meta);
+/**
+ * 批量查询 token（每批最多 DEXSCREENER_TOKENS_BATCH_SIZE 个地址），每个 token
+ * 取同一条链上作为 base token 时流动性最高的交易对。key 为 tokenIdentityKey。
+ */
+async function fetchTokenLevelMeta(
+   tokens: Array<{ chainId: string; tokenAddress: string }>,
+) {
+   const uniq = new Map<string, string>();
+   for (const t of tokens) {
+      const key = tokenIdentityKey(t.chainId, t.tokenAddress);
+      if (!uniq.has(key)) uniq.set(key, t.tokenAddress);
    }
 
-   return out;
-}
+   const batches = chunk(
+      Array.from(uniq),
+      batchSizeFromEnv("DEXSCREENER_TOKENS_BATCH_SIZE"),
+   );
 
-async function fetchPairsMetaByPairKey(
-   pairs: PairKey[],
-): Promise<Map<string, TokenMeta>> {
-   const schema = z.object({
-      pairs: z.array(
-         z.object({
-            chainId: z.string(),
-            pairAddress: z.string(),
-            baseToken: z.object({
-               address: z.string(),
-               name: z.string().optional(),
-               symbol: z.string().optional(),
-            }),
-            info: z
-               .object({
-                  imageUrl: z.string().url().optional(),
-                  header: z.string().url().optional(),
-               })
-               .optional(),
-            marketCap: z.number().optional(),
-            fdv: z.number().optional(),
-         }),
-      ),
+   const out = new Map<string, TokenMeta>();
+   await mapLimit(batches, 3, async (batch) => {
+      let pairs: DexPair[];
+      try {
+         pairs = await fetchDexPairs(
+            `${DEXSCREENER_LATEST_TOKENS_BASE_URL}/${Array.from(new Set(batch.map(([, addr]) => addr))).join(",")}`,
+            TOKENS_FEED,
+         );
+      } catch {
+         enrichmentLookups.inc(
+            { kind: "tokens", result: "error" },
+            batch.length,
+         );
+         return;
+      }
+
+      const best = new Map<string, DexPair>();
+      for (const p of pairs) {
+         const key = tokenIdentityKey(p.chainId, p.baseToken.address);
+         const existing = best.get(key);
+         if (
+            !existing ||
+            (p.liquidity?.usd ?? 0) > (existing.liquidity?.usd ?? 0)
+         ) {
+            best.set(key, p);
+         }
+      }
+
+      for (const [key] of batch) {
+         const p = best.get(key);
+         enrichmentLookups.inc({ kind: "tokens", result: p ? "hit" : "miss" });
+         if (p) out.set(key, pairToTokenMeta(p));
+      }
    });
 
-   const timeoutMs = Number(process.env.DEXSCREENER_TIMEOUT_MS ?? 8000);
+   return out;
+}
 
-   const uniq = new Map<string, PairKey>();
+/**
+ * 按链分组批量查询交易对（每批最多 DEXSCREENER_PAIRS_BATCH_SIZE 个地址）。
+ * key 为 pairKeyToString。返回交易对本身，由调用方核对 baseToken。
+ */
+async function fetchPairLevelMeta(pairs: PairKey[]) {
+   const byChain = new Map<string, Map<string, PairKey>>();
    for (const p of pairs) {
-      uniq.set(pairKeyToString(p), p);
+      const chain = p.chainId.toLowerCase();
+      let group = byChain.get(chain);
+      if (!group) {
+         group = new Map();
+         byChain.set(chain, group);
+      }
+      group.set(pairKeyToString(p), p);
    }
 
-   const uniqPairs = Array.from(uniq.values());
+   const batchSize = batchSizeFromEnv("DEXSCREENER_PAIRS_BATCH_SIZE");
+   const batches = Array.from(byChain.values()).flatMap((group) =>
+      chunk(Array.from(group.values()), batchSize),
+   );
+
+   const out = new Map<string, DexPair>();
+   await mapLimit(batches, 3, async (batch) => {
+      const chainId = batch[0]?.chainId;
+      if (!chainId) return;
 
-   const metas = await mapLimit(uniqPairs, 6, async (p) => {
+      let found: DexPair[];
       try {
-         const url = `${DEXSCREENER_LATEST_PAIRS_BASE_URL}/${p.chainId}/${p.pairAddress}`;
-         const json = await httpsGetJson(url, timeoutMs);
-         const parsed = schema.parse(json);
-         const first = parsed.pairs[0];
-         if (!first) return null;
-
-         const meta: TokenMeta = {
-            name: first.baseToken.name,
-            symbol: first.baseToken.symbol,
-            imageUrl: first.info?.imageUrl,
-            headerImageUrl: first.info?.header,
-            marketCap: first.marketCap ?? first.fdv,
-            pairAddress: first.pairAddress,
-         };
-
-         return { key: pairKeyToString(p), meta };
+         found = await fetchDexPairs(
+            `${DEXSCREENER_LATEST_PAIRS_BASE_URL}/${chainId}/${batch.map((p) => p.pairAddress).join(",")}`,
+            PAIRS_FEED,
+         );
       } catch {
-         return null;
+         enrichmentLookups.inc(
+            { kind: "pairs", result: "error" },
+            batch.length,
+         );
+         return;
       }
-   }).catch(() => []);
 
-   const out = new Map<string, TokenMeta>();
-   for (const m of metas) {
-      if (!m) continue;
-      out.set(m.key, m.meta);
-   }
+      const byKey = new Map(
+         found.map((p) => [
+            pairKeyToString({ chainId: p.chainId, pairAddress: p.pairAddress }),
+            p,
+         ]),
+      );
+      for (const pair of batch) {
+         const p = byKey.get(pairKeyToString(pair));
+         enrichmentLookups.inc({ kind: "pairs", result: p ? "hit" : "miss" });
+         if (p) out.set(pairKeyToString(pair), p);
+      }
+   });
 
    return out;
 }
 
+/**
+ * 补全元数据，只请求缓存中已过期的部分（规则见 planMetaRefresh）。
+ * 两种结果都有时以交易对为准（boost 指向的就是它），其次是 tokens 接口中
+ * 流动性最高的交易对。top、recent 与关注列表共用这份缓存。
+ * tokenOnly：链接不是 boost 给出的（关注列表自己拼的 token 页面），不按交易对查询。
+ */
+async function enrichTokenMeta(
+   boosts: DexscreenerTopBoost[],
+   opts: { tokenOnly?: boolean } = {},
+) {
+   const now = Date.now();
+   const plans = new Map<
+      string,
+      { boost: DexscreenerTopBoost; viaToken: boolean; pair?: PairKey }
+   >();
+
+   for (const b of boosts) {
+      const tokenKey = boostIdentityKey(b);
+      if (plans.has(tokenKey)) continue;
+
+      const urlPair = opts.tokenOnly
+         ? undefined
+         : parsePairAddressFromUrl(b.url, b.chainId);
+      const plan = planMetaRefresh(
+         tokenKey,
+         { hasPair: urlPair !== undefined },
+         now,
+      );
+      if (!plan) continue;
+
+      plans.set(tokenKey, {
+         boost: b,
+         viaToken: plan.viaToken,
+         pair:
+            plan.viaPair && urlPair !== undefined
+               ? { chainId: b.chainId, pairAddress: urlPair }
+               : undefined,
+      });
+   }
+
+   const planned = Array.from(plans.values());
+   const [tokenLevel, pairLevel] = await Promise.all([
+      fetchTokenLevelMeta(
+         planned.filter((p) => p.viaToken).map((p) => p.boost),
+      ),
+      fetchPairLevelMeta(planned.flatMap((p) => (p.pair ? [p.pair] : []))),
+   ]);
+
+   for (const [tokenKey, plan] of plans) {
+      const { boost } = plan;
+      const pair = plan.pair
+         ? pairLevel.get(pairKeyToString(plan.pair))
+         : undefined;
+      if (
+         pair &&
+         sameAddress(boost.chainId, pair.baseToken.address, boost.tokenAddress)
+      ) {
+         recordTokenMeta(tokenKey, pairToTokenMeta(pair), "pair", now);
+         continue;
+      }
+
+      const tokenMeta = plan.viaToken ? tokenLevel.get(tokenKey) : undefined;
+      if (tokenMeta) recordTokenMeta(tokenKey, tokenMeta, "token", now);
+   }
+}
+
 function dedupeBoosts(
    boosts: DexscreenerTopBoost[],
    limit: number,
@@ -723,7 +1057,7 @@ function dedupeBoosts(
    const out: DexscreenerTopBoost[] = [];
 
    for (const boost of boosts) {
-      const key = `${boost.chainId.toLowerCase()}:${boost.tokenAddress.toLowerCase()}`;
+      const key = boostIdentityKey(boost);
       if (seen.has(key)) continue;
       seen.add(key);
       out.push(boost);
@@ -736,14 +1070,51 @@ function dedupeBoosts(
 async function fetchCombinedBoosts(
    limit: number,
 ): Promise<DexscreenerTopBoost[]> {
-   const [top, latestBoosts, ads, profiles] = await Promise.all([
-      fetchTopBoostsFromDexscreener(),
-      fetchLatestBoostsFromDexscreener().catch(() => []),
-      fetchLatestAdsFromDexscreener().catch(() => []),
-      fetchLatestTokenProfilesFromDexscreener().catch(() => []),
-   ]);
+   const sources = listSources();
+   const lists = await Promise.all(
+      sources.map((source) =>
+         source.required
+            ? fetchSourceBoosts(source)
+            : fetchSourceBoosts(source).catch(() => []),
+      ),
+   );
+
+   const now = Date.now();
+   pruneProvenance(now, RECENT_TTL_MS);
+   lists.forEach((list, i) => {
+      const source = sources[i];
+      if (!source) return;
+      for (const boost of list) {
+         recordProvenance(boostIdentityKey(boost), source.id, now);
+      }
+   });
+
+   // 广告和 token profile 没有 boost 数量，同一 token 取各来源中的最大值
+   const amounts = new Map<string, number>();
+   for (const boost of lists.flat()) {
+      if (boost.totalAmount <= 0) continue;
+      const key = boostIdentityKey(boost);
+      amounts.set(key, Math.max(amounts.get(key) ?? 0, boost.totalAmount));
+   }
+   pruneBoostSamples(now, RECENT_TTL_MS);
+   for (const [key, amount] of amounts) {
+      recordBoostAmount(key, amount, now);
+   }
+
+   return dedupeBoosts(lists.flat(), limit);
+}
 
-   return dedupeBoosts([...top, ...latestBoosts, ...ads, ...profiles], limit);
+/** 记录一次刷新的耗时与结果 */
+async function timeRefresh<T>(mode: BubbleMode, refresh: () => Promise<T>) {
+   const endTimer = refreshDuration.startTimer();
+   try {
+      const state = await refresh();
+      endTimer({ mode, outcome: "success" });
+      return state;
+   } catch (err) {
+      endTimer({ mode, outcome: "error" });
+      throw err;
+   }
 }
 
 async function refreshTopBoostBubbles(limit: number): Promise<CacheState> {
@@ -752,43 +1123,22 @@ async function refreshTopBoostBubbles(limit: number): Promise<CacheState> {
    const boosts = await fetchCombinedBoosts(limit);
 
    const top = boosts.slice(0, limit);
+   await enrichTokenMeta(top);
 
-   const addrs = top.map((b) => b.tokenAddress);
-   const tokenMetaMap = await fetchTokenMetaMap(addrs).catch(() => new Map());
-
-   const pairsToFetch: PairKey[] = [];
-
-   for (const b of top) {
-      const addr = b.tokenAddress.toLowerCase();
-
-      const parsedPair = parsePairAddressFromUrl(b.url, b.chainId);
-      if (parsedPair) {
-         const existing = tokenMetaMap.get(addr);
-         tokenMetaMap.set(addr, {
-            ...(existing ?? {}),
-            pairAddress: parsedPair,
-         });
-      }
-
-      const pairAddress = tokenMetaMap.get(addr)?.pairAddress;
-      if (pairAddress) {
-         pairsToFetch.push({ chainId: b.chainId, pairAddress });
-      }
-   }
-
-   const pairMetaMap = await fetchPairsMetaMap(pairsToFetch).catch(
-      () => new Map(),
+   const nodes = scoreHotness(
+      top.map((b, idx) => mapBoostToBubbleNode(b, idx + 1)),
    );
 
-   const nodes = top.map((b, idx) => {
-      const addr = b.tokenAddress.toLowerCase();
-      const meta = pairMetaMap.get(addr) ?? tokenMetaMap.get(addr);
-      return mapBoostToBubbleNode(b, idx + 1, meta);
-   });
-
    const state: CacheState = { updatedAtMs: Date.now(), data: nodes };
    cache.latest = state;
+   pushRevision(cache.revisions, state);
    cache.lastError = null;
+   history?.record("top", state.data, state.updatedAtMs);
+   refreshEvents.emit("refresh", {
+      mode: "top",
+      updatedAtMs: state.updatedAtMs,
+      data: state.data,
+   });
    return state;
 }
 
@@ -796,9 +1146,8 @@ function mapBoostToRecentBubbleNode(
    entry: RecentEntry,
    rank: number,
 ): BubbleNode {
-   const meta = entry.meta;
    return {
-      ...mapBoostToBubbleNode(entry.boost, rank, meta),
+      ...mapBoostToBubbleNode(entry.boost, rank),
       id: entry.key,
       rank,
    };
@@ -810,75 +1159,25 @@ async function refreshRecentBoostBubbles(): Promise<RecentCacheState> {
 
    const boosts = await fetchCombinedBoosts(RECENT_CAPACITY);
 
-   const addrs = boosts.map((b) => b.tokenAddress);
-   const tokenMetaMap = await fetchTokenMetaMap(addrs).catch(() => new Map());
-
-   const pairsToFetch: PairKey[] = [];
-
    for (const b of boosts) {
-      const key = boostToTokenKey(b);
-      const keyStr = tokenKeyToString(key);
-
+      const keyStr = tokenKeyToString(boostToTokenKey(b));
       const existing = recentCache.entries.get(keyStr);
-      const next: RecentEntry = {
+      recentCache.entries.set(keyStr, {
          key: keyStr,
          boost: b,
+         firstSeenAtMs: existing?.firstSeenAtMs ?? now,
          lastSeenAtMs: now,
-         meta: existing?.meta,
-      };
-
-      recentCache.entries.set(keyStr, next);
-
-      const addr = b.tokenAddress.toLowerCase();
-
-      const parsedPair = key.kind === "pair" ? key.pairAddress : undefined;
-      if (parsedPair) {
-         const current = tokenMetaMap.get(addr);
-         tokenMetaMap.set(addr, {
-            ...(current ?? {}),
-            pairAddress: parsedPair,
-         });
-         pairsToFetch.push({ chainId: b.chainId, pairAddress: parsedPair });
-         continue;
-      }
-
-      const pairAddress = tokenMetaMap.get(addr)?.pairAddress;
-      if (pairAddress) {
-         pairsToFetch.push({ chainId: b.chainId, pairAddress });
-      }
+      });
    }
 
-   const pairMetaByPairKey = await fetchPairsMetaByPairKey(pairsToFetch).catch(
-      () => new Map(),
-   );
-
    for (const [keyStr, entry] of recentCache.entries) {
       if (now - entry.lastSeenAtMs > RECENT_TTL_MS) {
          recentCache.entries.delete(keyStr);
-         continue;
-      }
-
-      const addr = entry.boost.tokenAddress.toLowerCase();
-
-      const tokenKey = boostToTokenKey(entry.boost);
-      const pairKey =
-         tokenKey.kind === "pair"
-            ? pairKeyToString({
-                 chainId: tokenKey.chainId,
-                 pairAddress: tokenKey.pairAddress,
-              })
-            : undefined;
-
-      const meta =
-         (pairKey ? pairMetaByPairKey.get(pairKey) : undefined) ??
-         tokenMetaMap.get(addr) ??
-         entry.meta;
-
-      if (meta) {
-         entry.meta = meta;
       }
    }
 
+   await enrichTokenMeta(boosts);
+
    const sorted = Array.from(recentCache.entries.values()).sort(
       (a, b) => b.lastSeenAtMs - a.lastSeenAtMs,
    );
@@ -892,17 +1191,318 @@ async function refreshRecentBoostBubbles(): Promise<RecentCacheState> {
       }
    }
 
+   const state: RecentCacheState = {
+      updatedAtMs: Date.now(),
+      data: buildRecentNodes(),
+   };
+   recentCache.latest = state;
+   pushRevision(recentCache.revisions, state);
+   recentCache.lastError = null;
+   persistRecentWindow(state.updatedAtMs);
+   history?.record("recent", state.data, state.updatedAtMs);
+   refreshEvents.emit("refresh", {
+      mode: "recent",
+      updatedAtMs: state.updatedAtMs,
+      data: state.data,
+   });
+   return state;
+}
+
+function buildRecentNodes() {
    const finalSorted = Array.from(recentCache.entries.values()).sort(
       (a, b) => b.lastSeenAtMs - a.lastSeenAtMs,
    );
-   const nodes = finalSorted.map((e, idx) =>
-      mapBoostToRecentBubbleNode(e, idx + 1),
+   return scoreHotness(
+      finalSorted.map((e, idx) => mapBoostToRecentBubbleNode(e, idx + 1)),
    );
+}
 
-   const state: RecentCacheState = { updatedAtMs: Date.now(), data: nodes };
-   recentCache.latest = state;
-   recentCache.lastError = null;
-   return state;
+/**
+ * 上次写入的内容（序列化后），没有变化的记录不再重复写。只在本进程内有效，
+ * 重启后第一次持久化会全部重写一遍。
+ */
+const persistedRecords = new Map<string, string>();
+
+function putIfChanged<T>(collection: string, key: string, value: T) {
+   const id = `${collection}\u0000${key}`;
+   const json = JSON.stringify(value);
+   if (persistedRecords.get(id) === json) return;
+   persistedRecords.set(id, json);
+   storage.put(collection, key, value);
+}
+
+function deleteStale<T>(
+   collection: string,
+   keyOf: (stored: T) => string,
+   isLive: (key: string) => boolean,
+) {
+   for (const stored of storage.list<T>(collection)) {
+      const key = keyOf(stored);
+      if (isLive(key)) continue;
+      storage.delete(collection, key);
+      persistedRecords.delete(`${collection}\u0000${key}`);
+   }
+}
+
+function persistRecentWindow(updatedAtMs: number) {
+   const live = recentCache.entries;
+   const liveTokenKeys = new Set<string>();
+
+   storage.batch(() => {
+      for (const entry of live.values()) {
+         const tokenKey = boostIdentityKey(entry.boost);
+         liveTokenKeys.add(tokenKey);
+         putIfChanged(RECENT_ENTRIES_COLLECTION, entry.key, { ...entry });
+         putIfChanged<StoredProvenance>(PROVENANCE_COLLECTION, tokenKey, {
+            tokenKey,
+            records: getProvenance(tokenKey),
+         });
+         putIfChanged<StoredBoostSamples>(BOOST_SAMPLES_COLLECTION, tokenKey, {
+            tokenKey,
+            samples: getBoostSamples(tokenKey),
+            lastSeenAtMs: entry.lastSeenAtMs,
+         });
+         const metaRecord = getMetaRecord(tokenKey);
+         if (metaRecord) {
+            putIfChanged<StoredTokenMeta>(TOKEN_META_COLLECTION, tokenKey, {
+               tokenKey,
+               record: metaRecord,
+            });
+         }
+      }
+
+      const isLiveToken = (key: string) => liveTokenKeys.has(key);
+      deleteStale<RecentEntry>(
+         RECENT_ENTRIES_COLLECTION,
+         (e) => e.key,
+         (key) => live.has(key),
+      );
+      deleteStale<StoredProvenance>(
+         PROVENANCE_COLLECTION,
+         (p) => p.tokenKey,
+         isLiveToken,
+      );
+      deleteStale<StoredBoostSamples>(
+         BOOST_SAMPLES_COLLECTION,
+         (b) => b.tokenKey,
+         isLiveToken,
+      );
+      deleteStale<StoredTokenMeta>(
+         TOKEN_META_COLLECTION,
+         (m) => m.tokenKey,
+         isLiveToken,
+      );
+
+      storage.put(RECENT_STATE_COLLECTION, "latest", { updatedAtMs });
+   });
+}
+
+function rehydrateRecentWindow() {
+   const now = Date.now();
+
+   for (const stored of storage.list<StoredProvenance>(PROVENANCE_COLLECTION)) {
+      restoreProvenance(stored.tokenKey, stored.records);
+   }
+   pruneProvenance(now, RECENT_TTL_MS);
+
+   for (const stored of storage.list<StoredBoostSamples>(
+      BOOST_SAMPLES_COLLECTION,
+   )) {
+      restoreBoostSamples(stored.tokenKey, stored.samples, stored.lastSeenAtMs);
+   }
+   pruneBoostSamples(now, RECENT_TTL_MS);
+
+   for (const stored of storage.list<StoredTokenMeta>(TOKEN_META_COLLECTION)) {
+      restoreMetaRecord(stored.tokenKey, stored.record);
+   }
+
+   for (const entry of storage.list<RecentEntry>(RECENT_ENTRIES_COLLECTION)) {
+      if (!entry.key || !entry.boost) continue;
+      if (now - entry.lastSeenAtMs > RECENT_TTL_MS) continue;
+      recentCache.entries.set(entry.key, entry);
+   }
+
+   if (recentCache.entries.size === 0) return 0;
+
+   const saved = storage.get<{ updatedAtMs: number }>(
+      RECENT_STATE_COLLECTION,
+      "latest",
+   );
+   const lastSeenAtMs = Math.max(
+      ...Array.from(recentCache.entries.values(), (e) => e.lastSeenAtMs),
+   );
+   recentCache.latest = {
+      updatedAtMs: saved?.updatedAtMs ?? lastSeenAtMs,
+      data: buildRecentNodes(),
+   };
+   pushRevision(recentCache.revisions, recentCache.latest);
+   return recentCache.entries.size;
+}
+
+/** 不传 sort 时保持缓存中的原有顺序与 rank */
+function selectBubbleNodes(
+   data: BubbleNode[],
+   opts: {
+      filters: BubbleFilters;
+      sort?: BubbleSortId;
+      limit: number;
+      nowMs: number;
+   },
+) {
+   const filtered = applyBubbleFilters(data, opts.filters, opts.nowMs);
+   return (opts.sort ? rankBubbleNodes(filtered, opts.sort) : filtered).slice(
+      0,
+      opts.limit,
+   );
+}
+
+/**
+ * 统一处理 bubbles 路由的条件请求与 `since=` 增量：命中 ETag 返回 304；
+ * `since` 能在保留的刷新记录中找到时只返回增减与变化的节点，否则返回完整数据。
+ */
+function sendBubbles<T>(
+   request: FastifyRequest,
+   reply: FastifyReply,
+   opts: {
+      mode: BubbleMode;
+      revisions: CacheState[];
+      state: CacheState;
+      stale: boolean;
+      limit: number;
+      sort?: BubbleSortId;
+      filters: BubbleFilters;
+      since?: number;
+      full: (data: BubbleNode[]) => T;
+   },
+) {
+   const { state, stale, limit, sort, filters, since } = opts;
+   const now = Date.now();
+   const select = (data: BubbleNode[]) =>
+      selectBubbleNodes(data, { filters, sort, limit, nowMs: now });
+
+   const etag = weakEtag([
+      opts.mode,
+      state.updatedAtMs,
+      limit,
+      sort ?? "",
+      JSON.stringify(filters),
+      // 按年龄过滤的结果会随时间变化
+      filters.maxAgeMinutes !== undefined ? Math.floor(now / 60_000) : "",
+      since ?? "",
+      stale ? 1 : 0,
+   ]);
+   reply.header("etag", etag);
+   reply.header("last-modified", new Date(state.updatedAtMs).toUTCString());
+   reply.header("cache-control", "no-cache");
+
+   if (isNotModified(request.headers, etag, state.updatedAtMs)) {
+      return reply.status(304).send();
+   }
+
+   const base =
+      since === undefined
+         ? undefined
+         : opts.revisions.find((r) => r.updatedAtMs === since);
+   if (!base) {
+      return reply.send(opts.full(select(state.data)));
+   }
+
+   const payload: BubbleDeltaResponse = {
+      source: "dexscreener",
+      mode: opts.mode,
+      limit,
+      filters,
+      sort,
+      since: new Date(base.updatedAtMs).toISOString(),
+      updatedAt: new Date(state.updatedAtMs).toISOString(),
+      stale,
+      ...diffBubbleNodes(select(base.data), select(state.data)),
+   };
+   return reply.send(payload);
+}
+
+/**
+ * 汇总 top 缓存、recent 窗口和历史目录里出现过的 token，供搜索使用。
+ */
+function collectSearchDocuments() {
+   const docs = new Map<string, SearchDocument>();
+
+   const fromNode = (
+      n: BubbleNode,
+      mode: BubbleMode,
+      lastSeenAtMs: number | undefined,
+   ): SearchDocument => ({
+      key: tokenIdentityKey(n.chainId, n.tokenAddress),
+      chainId: n.chainId,
+      tokenAddress: n.tokenAddress,
+      symbol: n.symbol,
+      name: n.name,
+      description: n.description,
+      pairAddress: n.pairAddress,
+      ranks: { [mode]: n.rank },
+      lastSeenAtMs,
+   });
+
+   const top = cache.latest;
+   for (const n of top?.data ?? []) {
+      mergeSearchDocument(docs, fromNode(n, "top", top?.updatedAtMs));
+   }
+
+   for (const n of recentCache.latest?.data ?? []) {
+      const entry = recentCache.entries.get(n.id);
+      mergeSearchDocument(docs, fromNode(n, "recent", entry?.lastSeenAtMs));
+   }
+
+   for (const e of history?.directory() ?? []) {
+      mergeSearchDocument(docs, {
+         key: tokenIdentityKey(e.chainId, e.tokenAddress),
+         chainId: e.chainId,
+         tokenAddress: e.tokenAddress,
+         symbol: e.symbol,
+         name: e.name,
+         pairAddress: e.pairAddress,
+         ranks: {},
+         lastSeenAtMs: e.lastSeenAtMs,
+      });
+   }
+
+   return docs.values();
+}
+
+/**
+ * 关注列表中的 token 优先复用 top / recent 中已补全的节点；已经掉出榜单的
+ * 再单独向上游补全。rank 按列表中的顺序。
+ */
+async function buildWatchlistNodes(tokens: WatchlistToken[]) {
+   const known = new Map<string, BubbleNode>();
+   for (const n of [
+      ...(recentCache.latest?.data ?? []),
+      ...(cache.latest?.data ?? []),
+   ]) {
+      known.set(tokenIdentityKey(n.chainId, n.tokenAddress), n);
+   }
+
+   const toBoost = (t: WatchlistToken): DexscreenerTopBoost => ({
+      url: `https://dexscreener.com/${t.chainId}/${t.tokenAddress}`,
+      chainId: t.chainId,
+      tokenAddress: t.tokenAddress,
+      totalAmount: 0,
+   });
+   await enrichTokenMeta(
+      tokens
+         .filter((t) => !known.has(tokenIdentityKey(t.chainId, t.tokenAddress)))
+         .map(toBoost),
+      { tokenOnly: true },
+   );
+
+   return scoreHotness(
+      tokens.map((t, idx) => {
+         const key = tokenIdentityKey(t.chainId, t.tokenAddress);
+         const node = known.get(key);
+         if (node) return { ...node, rank: idx + 1 };
+         return mapBoostToBubbleNode(toBoost(t), idx + 1);
+      }),
+   );
 }
 
 function ensureRecentRefreshInBackground(log?: {
@@ -913,7 +1513,7 @@ function ensureRecentRefreshInBackground(log?: {
 
    recentCache.inFlight = (async () => {
       try {
-         const state = await refreshRecentBoostBubbles();
+         const state = await timeRefresh("recent", refreshRecentBoostBubbles);
          log?.info(
             { updatedAt: state.updatedAtMs },
             "Dexscreener recent 刷新成功",
@@ -943,20 +1543,30 @@ async function getRecentBoostBubbles(opts: {
    const latest = recentCache.latest;
 
    if (latest && now - latest.updatedAtMs <= opts.freshTtlMs) {
+      cacheServes.inc({ mode: "recent", result: "fresh" });
       return { state: latest, stale: false };
    }
 
    if (latest && now - latest.updatedAtMs <= opts.staleTtlMs) {
+      cacheServes.inc({ mode: "recent", result: "stale" });
       ensureRecentRefreshInBackground(opts.log);
       return { state: latest, stale: true };
    }
 
+   // 上游熔断时不做同步刷新，有旧数据就先返回
+   if (latest && isUpstreamOpen("boosts")) {
+      cacheServes.inc({ mode: "recent", result: "stale" });
+      return { state: latest, stale: true };
+   }
+
+   cacheServes.inc({ mode: "recent", result: "miss" });
+
    if (recentCache.inFlight) {
       const state = await recentCache.inFlight;
       return { state, stale: false };
    }
 
-   recentCache.inFlight = refreshRecentBoostBubbles()
+   recentCache.inFlight = timeRefresh("recent", refreshRecentBoostBubbles)
       .catch((err) => {
          recentCache.lastError = err;
          throw err;
@@ -980,7 +1590,9 @@ function ensureRefreshInBackground(
 
    cache.inFlight = (async () => {
       try {
-         const state = await refreshTopBoostBubbles(limit);
+         const state = await timeRefresh("top", () =>
+            refreshTopBoostBubbles(limit),
+         );
          log?.info(
             { updatedAt: state.updatedAtMs },
             "Dexscreener boosts 刷新成功",
@@ -1015,6 +1627,7 @@ async function getTopBoostBubbles(opts: {
       now - latest.updatedAtMs <= opts.freshTtlMs &&
       latest.data.length >= opts.limit
    ) {
+      cacheServes.inc({ mode: "top", result: "fresh" });
       return { state: latest, stale: false };
    }
 
@@ -1023,16 +1636,24 @@ async function getTopBoostBubbles(opts: {
       now - latest.updatedAtMs <= opts.staleTtlMs &&
       latest.data.length >= opts.limit
    ) {
+      cacheServes.inc({ mode: "top", result: "stale" });
       ensureRefreshInBackground(opts.limit, opts.log);
       return { state: latest, stale: true };
    }
 
+   if (latest && isUpstreamOpen("boosts")) {
+      cacheServes.inc({ mode: "top", result: "stale" });
+      return { state: latest, stale: true };
+   }
+
+   cacheServes.inc({ mode: "top", result: "miss" });
+
    if (cache.inFlight) {
       const state = await cache.inFlight;
       return { state, stale: false };
    }
 
-   cache.inFlight = refreshTopBoostBubbles(opts.limit)
+   cache.inFlight = timeRefresh("top", () => refreshTopBoostBubbles(opts.limit))
       .catch((err) => {
          cache.lastError = err;
          throw err;
@@ -1048,12 +1669,85 @@ async function getTopBoostBubbles(opts: {
 async function main() {
    const env: Env = envSchema.parse(process.env);
 
+   await configureHttpTransport({
+      mode: env.DEXSCREENER_HTTP_MODE,
+      cassetteDir: env.DEXSCREENER_CASSETTE_DIR,
+      replayRealtime: env.DEXSCREENER_REPLAY_REALTIME,
+   });
+   configureMetaCache({
+      maxEntries: env.META_CACHE_MAX_ENTRIES,
+      staticTtlMs: env.META_STATIC_TTL_MS,
+      volatileTtlMs: env.META_VOLATILE_TTL_MS,
+   });
+   configureUpstreamGuard({
+      listPerMinute: env.DEXSCREENER_LIST_RPM,
+      dexPerMinute: env.DEXSCREENER_DEX_RPM,
+      breakerThreshold: env.DEXSCREENER_BREAKER_THRESHOLD,
+      breakerCooldownMs: env.DEXSCREENER_BREAKER_COOLDOWN_MS,
+   });
+
+   const hotness = await loadHotnessConfig(env.HOTNESS_CONFIG_PATH);
+
+   storage = await openStorage({
+      driver: env.STORAGE_DRIVER,
+      path: env.STORAGE_PATH,
+   });
+   const rehydrated = rehydrateRecentWindow();
+   const watchlists = createWatchlistStore(storage);
+   history = createHistoryStore(storage, {
+      intervalMs: env.HISTORY_INTERVAL_MS,
+      tiers: [
+         {
+            maxAgeMs: env.HISTORY_FULL_RETENTION_HOURS * 3_600_000,
+            stepMs: env.HISTORY_INTERVAL_MS,
+         },
+         {
+            maxAgeMs: env.HISTORY_RETENTION_DAYS * 86_400_000,
+            stepMs: env.HISTORY_COARSE_STEP_MINUTES * 60_000,
+         },
+      ],
+   });
+
+   registerDefaultSources({
+      mode: env.DEXSCREENER_SOURCE_MODE,
+      fixtureDir: env.DEXSCREENER_FIXTURE_DIR,
+   });
+
    const fastify = Fastify({
       logger: {
          level: process.env.LOG_LEVEL ?? "info",
       },
    });
 
+   registerAlertSink({
+      id: "log",
+      send: async (event) => {
+         fastify.log.info({ alert: event }, "告警触发");
+      },
+   });
+
+   const webhooks = createWebhookDispatcher(storage, {
+      maxAttempts: env.WEBHOOK_MAX_ATTEMPTS,
+      timeoutMs: env.WEBHOOK_TIMEOUT_MS,
+      log: fastify.log,
+   });
+   registerAlertSink({
+      id: "webhook",
+      send: async (event) => {
+         webhooks.publishAlert(event);
+      },
+   });
+
+   const alerts = createAlertEngine(storage, {
+      onDispatchError: (err, sinkId) =>
+         fastify.log.warn({ err, sinkId }, "告警发送失败"),
+   });
+   refreshEvents.on("refresh", (event) => {
+      alerts.evaluate(event);
+      webhooks.publishRefresh(event);
+   });
+   webhooks.start();
+
    await fastify.register(cors, {
       origin: env.FRONTEND_ORIGIN ? [env.FRONTEND_ORIGIN] : true,
    });
@@ -1071,9 +1765,14 @@ async function main() {
          cacheAgeMs: latest ? Date.now() - latest.updatedAtMs : null,
          lastAttemptedAtMs: cache.lastAttemptedAtMs,
          lastError: cache.lastError ? "上游请求失败" : null,
+         upstream: getUpstreamStatus(),
       };
    });
 
+   fastify.get("/metrics", async (_request, reply) => {
+      return reply.type(METRICS_CONTENT_TYPE).send(renderMetrics());
+   });
+
    fastify.get("/api/v1/bubbles/top-boosts", async (request, reply) => {
       const parse = querySchema.safeParse(request.query);
       if (!parse.success) {
@@ -1083,7 +1782,7 @@ async function main() {
          });
       }
 
-      const { limit } = parse.data;
+      const { limit, sort, since, ...filters } = parse.data;
 
       try {
          const { state, stale } = await getTopBoostBubbles({
@@ -1096,16 +1795,26 @@ async function main() {
             },
          });
 
-         const payload: TopBoostBubblesResponse = {
-            source: "dexscreener",
-            endpoint: "/token-boosts/top/v1",
-            limit,
-            updatedAt: new Date(state.updatedAtMs).toISOString(),
+         return sendBubbles(request, reply, {
+            mode: "top",
+            revisions: cache.revisions,
+            state,
             stale,
-            data: state.data.slice(0, limit),
-         };
-
-         return reply.send(payload);
+            limit,
+            sort,
+            filters,
+            since,
+            full: (data): TopBoostBubblesResponse => ({
+               source: "dexscreener",
+               endpoint: "/token-boosts/top/v1",
+               limit,
+               filters,
+               sort,
+               updatedAt: new Date(state.updatedAtMs).toISOString(),
+               stale,
+               data,
+            }),
+         });
       } catch (err) {
          request.log.error({ err }, "拉取 Dexscreener boosts 失败");
          return reply.status(502).send({
@@ -1123,7 +1832,7 @@ async function main() {
          });
       }
 
-      const { limit } = parse.data;
+      const { limit, sort, since, ...filters } = parse.data;
 
       try {
          const { state, stale } = await getRecentBoostBubbles({
@@ -1135,17 +1844,27 @@ async function main() {
             },
          });
 
-         const payload: RecentBoostBubblesResponse = {
-            source: "dexscreener",
-            endpoint: "/token-boosts/top/v1",
+         return sendBubbles(request, reply, {
             mode: "recent",
-            limit,
-            updatedAt: new Date(state.updatedAtMs).toISOString(),
+            revisions: recentCache.revisions,
+            state,
             stale,
-            data: state.data.slice(0, limit),
-         };
-
-         return reply.send(payload);
+            limit,
+            sort,
+            filters,
+            since,
+            full: (data): RecentBoostBubblesResponse => ({
+               source: "dexscreener",
+               endpoint: "/token-boosts/top/v1",
+               mode: "recent",
+               limit,
+               filters,
+               sort,
+               updatedAt: new Date(state.updatedAtMs).toISOString(),
+               stale,
+               data,
+            }),
+         });
       } catch (err) {
          request.log.error({ err }, "拉取 Dexscreener recent 失败");
          return reply.status(502).send({
@@ -1154,6 +1873,629 @@ async function main() {
       }
    });
 
+   // hijack 之后的 SSE 连接不会被 fastify.close() 关闭，退出前主动结束
+   const openStreams = new Set<() => void>();
+   fastify.addHook("preClose", async () => {
+      for (const end of openStreams) end();
+   });
+
+   fastify.get("/api/v1/bubbles/stream", async (request, reply) => {
+      const parse = streamQuerySchema.safeParse(request.query);
+      if (!parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: parse.error.issues,
+         });
+      }
+
+      const { mode, limit, sort, ...filters } = parse.data;
+      const select = (data: BubbleNode[]) =>
+         selectBubbleNodes(data, { filters, sort, limit, nowMs: Date.now() });
+
+      reply.hijack();
+      const res = reply.raw;
+      res.writeHead(200, {
+         ...(reply.getHeaders() as Record<string, string>),
+         "content-type": "text/event-stream; charset=utf-8",
+         "cache-control": "no-cache, no-transform",
+         connection: "keep-alive",
+         "x-accel-buffering": "no",
+      });
+
+      const send = (event: string, data: unknown) => {
+         res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      res.write("retry: 5000\n\n");
+
+      let lastSent: BubbleNode[] | null = null;
+      let lastUpdatedAtMs = 0;
+
+      const sendSnapshot = (updatedAtMs: number, data: BubbleNode[]) => {
+         const selected = select(data);
+         const payload: BubbleStreamSnapshotEvent = {
+            mode,
+            updatedAt: new Date(updatedAtMs).toISOString(),
+            stale: Date.now() - updatedAtMs > 30_000,
+            data: selected,
+         };
+         send("snapshot", payload);
+         lastSent = selected;
+         lastUpdatedAtMs = updatedAtMs;
+      };
+
+      const onRefresh = (event: RefreshEvent) => {
+         if (event.mode !== mode) return;
+         if (lastSent === null) {
+            sendSnapshot(event.updatedAtMs, event.data);
+            return;
+         }
+
+         const next = select(event.data);
+         const diff = diffBubbleNodes(lastSent, next);
+         if (isEmptyDiff(diff)) return;
+
+         const payload: BubbleStreamDiffEvent = {
+            mode,
+            since: new Date(lastUpdatedAtMs).toISOString(),
+            updatedAt: new Date(event.updatedAtMs).toISOString(),
+            ...diff,
+         };
+         send("diff", payload);
+         lastSent = next;
+         lastUpdatedAtMs = event.updatedAtMs;
+      };
+
+      refreshEvents.on("refresh", onRefresh);
+
+      const heartbeatId = setInterval(() => {
+         res.write(": ping\n\n");
+      }, STREAM_HEARTBEAT_MS);
+
+      const end = () => res.end();
+      openStreams.add(end);
+
+      request.raw.on("close", () => {
+         clearInterval(heartbeatId);
+         refreshEvents.off("refresh", onRefresh);
+         openStreams.delete(end);
+      });
+
+      const latest = mode === "top" ? cache.latest : recentCache.latest;
+      if (latest) {
+         sendSnapshot(latest.updatedAtMs, latest.data);
+      } else if (mode === "top") {
+         ensureRefreshInBackground(
+            Math.max(limit, TOP_REFRESH_LIMIT),
+            request.log,
+         );
+      } else {
+         ensureRecentRefreshInBackground(request.log);
+      }
+   });
+
+   fastify.get("/api/v1/bubbles/history", async (request, reply) => {
+      const parse = historyQuerySchema.safeParse(request.query);
+      if (!parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: parse.error.issues,
+         });
+      }
+
+      const toMs = parse.data.to ?? Date.now();
+      const fromMs = parse.data.from ?? toMs - 60 * 60 * 1000;
+      const stepMs = parse.data.step ?? env.HISTORY_INTERVAL_MS;
+
+      if (fromMs > toMs) {
+         return reply.status(400).send({ message: "from 不能晚于 to" });
+      }
+
+      if ((toMs - fromMs) / stepMs > HISTORY_MAX_POINTS) {
+         return reply.status(400).send({
+            message: `时间范围过大：最多返回 ${HISTORY_MAX_POINTS} 个快照，请调大 step`,
+         });
+      }
+
+      const payload: BubbleHistoryResponse = {
+         mode: parse.data.mode,
+         from: new Date(fromMs).toISOString(),
+         to: new Date(toMs).toISOString(),
+         stepMs,
+         data:
+            history?.snapshots({
+               mode: parse.data.mode,
+               fromMs,
+               toMs,
+               stepMs,
+            }) ?? [],
+      };
+
+      return reply.send(payload);
+   });
+
+   const watchlistNotFound = (reply: FastifyReply) =>
+      reply.status(404).send({ message: "未找到该 watchlist" });
+
+   fastify.get("/api/v1/watchlists", async () => {
+      return { data: watchlists.list() };
+   });
+
+   fastify.post("/api/v1/watchlists", async (request, reply) => {
+      const parse = watchlistCreateSchema.safeParse(request.body);
+      if (!parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: parse.error.issues,
+         });
+      }
+
+      const list = watchlists.create(parse.data.name, parse.data.tokens);
+      return reply.status(201).send(list);
+   });
+
+   fastify.get("/api/v1/watchlists/:id", async (request, reply) => {
+      const params = watchlistParamsSchema.safeParse(request.params);
+      if (!params.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: params.error.issues,
+         });
+      }
+
+      const list = watchlists.get(params.data.id);
+      if (!list) return watchlistNotFound(reply);
+      return reply.send(list);
+   });
+
+   fastify.patch("/api/v1/watchlists/:id", async (request, reply) => {
+      const params = watchlistParamsSchema.safeParse(request.params);
+      const parse = watchlistUpdateSchema.safeParse(request.body);
+      if (!params.success || !parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: [
+               ...(params.error?.issues ?? []),
+               ...(parse.error?.issues ?? []),
+            ],
+         });
+      }
+
+      const list = watchlists.rename(params.data.id, parse.data.name);
+      if (!list) return watchlistNotFound(reply);
+      return reply.send(list);
+   });
+
+   fastify.delete("/api/v1/watchlists/:id", async (request, reply) => {
+      const params = watchlistParamsSchema.safeParse(request.params);
+      if (!params.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: params.error.issues,
+         });
+      }
+
+      if (!watchlists.remove(params.data.id)) return watchlistNotFound(reply);
+      return reply.status(204).send();
+   });
+
+   fastify.post("/api/v1/watchlists/:id/tokens", async (request, reply) => {
+      const params = watchlistParamsSchema.safeParse(request.params);
+      const parse = watchlistTokensSchema.safeParse(request.body);
+      if (!params.success || !parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: [
+               ...(params.error?.issues ?? []),
+               ...(parse.error?.issues ?? []),
+            ],
+         });
+      }
+
+      const list = watchlists.addTokens(params.data.id, parse.data.tokens);
+      if (!list) return watchlistNotFound(reply);
+      return reply.send(list);
+   });
+
+   fastify.delete(
+      "/api/v1/watchlists/:id/tokens/:token",
+      async (request, reply) => {
+         const params = watchlistTokenParamsSchema.safeParse(request.params);
+         if (!params.success) {
+            return reply.status(400).send({
+               message: "参数不合法",
+               issues: params.error.issues,
+            });
+         }
+
+         const { id, token } = params.data;
+         const list = watchlists.removeToken(
+            id,
+            token.chainId,
+            token.tokenAddress,
+         );
+         if (!list) return watchlistNotFound(reply);
+         return reply.send(list);
+      },
+   );
+
+   fastify.get("/api/v1/watchlists/:id/bubbles", async (request, reply) => {
+      const params = watchlistParamsSchema.safeParse(request.params);
+      if (!params.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: params.error.issues,
+         });
+      }
+
+      const list = watchlists.get(params.data.id);
+      if (!list) return watchlistNotFound(reply);
+
+      const payload: WatchlistBubblesResponse = {
+         watchlist: summarizeWatchlist(list),
+         updatedAt: new Date().toISOString(),
+         data: await buildWatchlistNodes(list.tokens),
+      };
+
+      return reply.send(payload);
+   });
+
+   const alertNotFound = (reply: FastifyReply) =>
+      reply.status(404).send({ message: "未找到该告警规则" });
+
+   fastify.get("/api/v1/alerts", async () => {
+      return { data: alerts.listRules(), sinks: listAlertSinks() };
+   });
+
+   fastify.get("/api/v1/alerts/events", async (request, reply) => {
+      const parse = alertEventsQuerySchema.safeParse(request.query);
+      if (!parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: parse.error.issues,
+         });
+      }
+
+      const payload: AlertEventsResponse = {
+         data: alerts.events({
+            ruleId: parse.data.ruleId,
+            sinceMs: parse.data.since,
+            limit: parse.data.limit,
+         }),
+      };
+      return reply.send(payload);
+   });
+
+   fastify.post("/api/v1/alerts", async (request, reply) => {
+      const parse = alertRuleCreateSchema.safeParse(request.body);
+      if (!parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: parse.error.issues,
+         });
+      }
+
+      const unknown = unknownAlertSinks(parse.data.sinks);
+      if (unknown.length > 0) {
+         return reply.status(400).send({
+            message: `未知的告警通道：${unknown.join(", ")}`,
+         });
+      }
+
+      return reply.status(201).send(alerts.createRule(parse.data));
+   });
+
+   fastify.get("/api/v1/alerts/:id", async (request, reply) => {
+      const params = alertParamsSchema.safeParse(request.params);
+      if (!params.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: params.error.issues,
+         });
+      }
+
+      const rule = alerts.getRule(params.data.id);
+      if (!rule) return alertNotFound(reply);
+      return reply.send(rule);
+   });
+
+   fastify.patch("/api/v1/alerts/:id", async (request, reply) => {
+      const params = alertParamsSchema.safeParse(request.params);
+      const parse = alertRuleUpdateSchema.safeParse(request.body);
+      if (!params.success || !parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: [
+               ...(params.error?.issues ?? []),
+               ...(parse.error?.issues ?? []),
+            ],
+         });
+      }
+
+      const unknown = unknownAlertSinks(parse.data.sinks);
+      if (unknown.length > 0) {
+         return reply.status(400).send({
+            message: `未知的告警通道：${unknown.join(", ")}`,
+         });
+      }
+
+      const rule = alerts.updateRule(params.data.id, parse.data);
+      if (!rule) return alertNotFound(reply);
+      return reply.send(rule);
+   });
+
+   fastify.delete("/api/v1/alerts/:id", async (request, reply) => {
+      const params = alertParamsSchema.safeParse(request.params);
+      if (!params.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: params.error.issues,
+         });
+      }
+
+      if (!alerts.deleteRule(params.data.id)) return alertNotFound(reply);
+      return reply.status(204).send();
+   });
+
+   await fastify.register(
+      async (admin) => {
+         admin.addHook("onRequest", async (request, reply) => {
+            if (!env.ADMIN_TOKEN) {
+               return reply
+                  .status(403)
+                  .send({ message: "未配置 ADMIN_TOKEN，管理接口已禁用" });
+            }
+            if (
+               !isAdminAuthorized(
+                  request.headers.authorization,
+                  env.ADMIN_TOKEN,
+               )
+            ) {
+               return reply.status(401).send({ message: "管理令牌无效" });
+            }
+         });
+
+         const webhookNotFound = (reply: FastifyReply) =>
+            reply.status(404).send({ message: "未找到该 webhook" });
+
+         admin.get("/webhooks", async () => {
+            return { data: webhooks.list() };
+         });
+
+         admin.post("/webhooks", async (request, reply) => {
+            const parse = webhookCreateSchema.safeParse(request.body);
+            if (!parse.success) {
+               return reply.status(400).send({
+                  message: "参数不合法",
+                  issues: parse.error.issues,
+               });
+            }
+
+            return reply.status(201).send(webhooks.create(parse.data));
+         });
+
+         admin.get("/webhooks/deliveries", async (request, reply) => {
+            const parse = webhookLogQuerySchema.safeParse(request.query);
+            if (!parse.success) {
+               return reply.status(400).send({
+                  message: "参数不合法",
+                  issues: parse.error.issues,
+               });
+            }
+
+            return reply.send({ data: webhooks.deliveries(parse.data) });
+         });
+
+         admin.get("/webhooks/dead-letters", async (request, reply) => {
+            const parse = webhookLogQuerySchema.safeParse(request.query);
+            if (!parse.success) {
+               return reply.status(400).send({
+                  message: "参数不合法",
+                  issues: parse.error.issues,
+               });
+            }
+
+            return reply.send({ data: webhooks.deadLetters(parse.data) });
+         });
+
+         admin.post(
+            "/webhooks/dead-letters/:id/redeliver",
+            async (request, reply) => {
+               const params = webhookParamsSchema.safeParse(request.params);
+               if (!params.success) {
+                  return reply.status(400).send({
+                     message: "参数不合法",
+                     issues: params.error.issues,
+                  });
+               }
+
+               if (!webhooks.redeliver(params.data.id)) {
+                  return reply
+                     .status(404)
+                     .send({ message: "未找到该死信记录" });
+               }
+               return reply.status(202).send({ id: params.data.id });
+            },
+         );
+
+         admin.patch("/webhooks/:id", async (request, reply) => {
+            const params = webhookParamsSchema.safeParse(request.params);
+            const parse = webhookUpdateSchema.safeParse(request.body);
+            if (!params.success || !parse.success) {
+               return reply.status(400).send({
+                  message: "参数不合法",
+                  issues: [
+                     ...(params.error?.issues ?? []),
+                     ...(parse.error?.issues ?? []),
+                  ],
+               });
+            }
+
+            const webhook = webhooks.update(params.data.id, parse.data);
+            if (!webhook) return webhookNotFound(reply);
+            return reply.send(webhook);
+         });
+
+         admin.delete("/webhooks/:id", async (request, reply) => {
+            const params = webhookParamsSchema.safeParse(request.params);
+            if (!params.success) {
+               return reply.status(400).send({
+                  message: "参数不合法",
+                  issues: params.error.issues,
+               });
+            }
+
+            if (!webhooks.remove(params.data.id)) return webhookNotFound(reply);
+            return reply.status(204).send();
+         });
+      },
+      { prefix: "/api/v1/admin" },
+   );
+
+   fastify.get("/api/v1/chains", async (_request, reply) => {
+      return reply.send({ data: CHAINS });
+   });
+
+   fastify.get("/api/v1/search", async (request, reply) => {
+      const parse = searchQuerySchema.safeParse(request.query);
+      if (!parse.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: parse.error.issues,
+         });
+      }
+
+      const { q, limit } = parse.data;
+      const payload: TokenSearchResponse = {
+         q,
+         limit,
+         data: searchDocuments(collectSearchDocuments(), q, limit),
+      };
+
+      return reply.send(payload);
+   });
+
+   fastify.get("/api/v1/tokens/:chainId/:address", async (request, reply) => {
+      const params = tokenParamsSchema.safeParse(request.params);
+      if (!params.success) {
+         return reply.status(400).send({
+            message: "参数不合法",
+            issues: params.error.issues,
+         });
+      }
+
+      const { chainId, address } = params.data;
+      const key = tokenIdentityKey(chainId, address);
+
+      const topNode = cache.latest?.data.find(
+         (n) => tokenIdentityKey(n.chainId, n.tokenAddress) === key,
+      );
+      const entry = Array.from(recentCache.entries.values()).find(
+         (e) => boostIdentityKey(e.boost) === key,
+      );
+      const recentNode = entry
+         ? recentCache.latest?.data.find((n) => n.id === entry.key)
+         : undefined;
+      const node = topNode ?? recentNode ?? null;
+      // Solana 等链的地址区分大小写，已知 token 优先用原始地址查上游
+      const tokenAddress = node?.tokenAddress ?? address;
+
+      let pairs: DexPair[] | null = null;
+      try {
+         pairs = await fetchTokenPools(chainId, tokenAddress);
+      } catch (err) {
+         request.log.warn({ err }, "拉取 token 交易对失败");
+      }
+
+      const provenance = getProvenance(key);
+      if (!node && !pairs?.length && provenance.length === 0) {
+         if (pairs === null) {
+            return reply.status(502).send({
+               message: "上游数据源暂不可用，请稍后再试",
+            });
+         }
+         return reply.status(404).send({ message: "未找到该 token" });
+      }
+
+      const links = new Map<string, DexscreenerBoostLink>();
+      for (const l of node?.links ?? []) links.set(l.url, l);
+      for (const p of pairs ?? []) {
+         for (const s of p.info?.socials ?? []) {
+            if (!links.has(s.url)) links.set(s.url, toBubbleLink(s));
+         }
+         for (const w of p.info?.websites ?? []) {
+            if (!links.has(w.url)) {
+               links.set(w.url, {
+                  url: w.url,
+                  type: "website",
+                  label: w.label,
+               });
+            }
+         }
+      }
+
+      const payload: TokenDetailResponse = {
+         chainId: node?.chainId ?? chainId,
+         tokenAddress,
+         chain: getChainInfo(chainId) ?? null,
+         explorerUrl: explorerTokenUrl(chainId, tokenAddress),
+         node,
+         ranks: { top: topNode?.rank, recent: recentNode?.rank },
+         pools: pairs ? pairs.map(pairToTokenPool) : null,
+         provenance,
+         links: Array.from(links.values()),
+         firstSeenAt:
+            entry?.firstSeenAtMs !== undefined
+               ? new Date(entry.firstSeenAtMs).toISOString()
+               : undefined,
+         lastSeenAt: entry
+            ? new Date(entry.lastSeenAtMs).toISOString()
+            : undefined,
+      };
+
+      return reply.send(payload);
+   });
+
+   fastify.get(
+      "/api/v1/tokens/:chainId/:address/history",
+      async (request, reply) => {
+         const params = tokenParamsSchema.safeParse(request.params);
+         const parse = tokenHistoryQuerySchema.safeParse(request.query);
+         if (!params.success || !parse.success) {
+            return reply.status(400).send({
+               message: "参数不合法",
+               issues: [
+                  ...(params.error?.issues ?? []),
+                  ...(parse.error?.issues ?? []),
+               ],
+            });
+         }
+
+         const toMs = parse.data.to ?? Date.now();
+         const fromMs = parse.data.from ?? toMs - 24 * 60 * 60 * 1000;
+         const { chainId, address } = params.data;
+
+         const payload: TokenHistoryResponse = {
+            chainId,
+            tokenAddress: address,
+            from: new Date(fromMs).toISOString(),
+            to: new Date(toMs).toISOString(),
+            data:
+               history?.tokenSeries({
+                  chainId,
+                  tokenAddress: address,
+                  modes: parse.data.mode
+                     ? [parse.data.mode]
+                     : ["top", "recent"],
+                  fromMs,
+                  toMs,
+               }) ?? [],
+         };
+
+         return reply.send(payload);
+      },
+   );
+
    const port = env.PORT ?? 3001;
    const host = env.HOST ?? "0.0.0.0";
 
@@ -1162,10 +2504,14 @@ async function main() {
    const runSchedule = async () => {
       try {
          if (cache.latest === null) {
-            ensureRefreshInBackground(30, fastify.log);
+            ensureRefreshInBackground(TOP_REFRESH_LIMIT, fastify.log);
          }
 
-         if (recentCache.latest === null) {
+         const recentLatest = recentCache.latest;
+         if (
+            recentLatest === null ||
+            Date.now() - recentLatest.updatedAtMs > refreshIntervalMs
+         ) {
             ensureRecentRefreshInBackground(fastify.log);
          }
       } catch {
@@ -1175,12 +2521,36 @@ async function main() {
 
    void runSchedule();
    setInterval(() => {
-      ensureRefreshInBackground(30, fastify.log);
+      ensureRefreshInBackground(TOP_REFRESH_LIMIT, fastify.log);
       ensureRecentRefreshInBackground(fastify.log);
    }, refreshIntervalMs);
 
+   const shutdown = async (signal: string) => {
+      fastify.log.info({ signal }, "API 服务正在退出");
+      try {
+         await fastify.close();
+         webhooks.stop();
+         await storage.close();
+      } finally {
+         process.exit(0);
+      }
+   };
+
+   process.once("SIGINT", () => void shutdown("SIGINT"));
+   process.once("SIGTERM", () => void shutdown("SIGTERM"));
+
    await fastify.listen({ port, host });
-   fastify.log.info({ port, host }, "API 服务已启动");
+   fastify.log.info(
+      {
+         port,
+         host,
+         httpMode: env.DEXSCREENER_HTTP_MODE,
+         storage: storage.driver,
+         rehydrated,
+         hotnessConfig: hotness.path ?? "默认权重",
+      },
+      "API 服务已启动",
+   );
 }
 
 main().catch((err) => {
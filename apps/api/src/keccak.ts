@@ -0,0 +1,126 @@
+/**
+ * Keccak-256（以太坊使用的原始 Keccak 填充，不是 NIST SHA3-256）。
+ * 只用于 EIP-55 地址校验和，输入很短，直接用 BigInt 表示 64 位 lane。
+ */
+
+const MASK = (1n << 64n) - 1n;
+
+const ROUND_CONSTANTS = [
+   0x0000000000000001n,
+   0x0000000000008082n,
+   0x800000000000808an,
+   0x8000000080008000n,
+   0x000000000000808bn,
+   0x0000000080000001n,
+   0x8000000080008081n,
+   0x8000000000008009n,
+   0x000000000000008an,
+   0x0000000000000088n,
+   0x0000000080008009n,
+   0x000000008000000an,
+   0x000000008000808bn,
+   0x800000000000008bn,
+   0x8000000000008089n,
+   0x8000000000008003n,
+   0x8000000000008002n,
+   0x8000000000000080n,
+   0x000000000000800an,
+   0x800000008000000an,
+   0x8000000080008081n,
+   0x8000000000008080n,
+   0x0000000080000001n,
+   0x8000000080008008n,
+];
+
+/** rho 的旋转位数与 pi 的 lane 顺序，沿 (1, 0) 出发的轨迹排列 */
+const RHO = [
+   1, 3, 6, 10, 15, 21, 28, 36, 45, 55, 2, 14, 27, 41, 56, 8, 25, 43, 62, 18,
+   39, 61, 20, 44,
+];
+const PI = [
+   10, 7, 11, 17, 18, 3, 5, 16, 8, 21, 24, 4, 15, 23, 19, 13, 12, 2, 20, 14, 22,
+   9, 6, 1,
+];
+
+const RATE_BYTES = 136;
+
+function rotl(x: bigint, n: number) {
+   const s = BigInt(n);
+   return ((x << s) | (x >> (64n - s))) & MASK;
+}
+
+function keccakF(state: bigint[]) {
+   const c = new Array<bigint>(5).fill(0n);
+
+   for (const rc of ROUND_CONSTANTS) {
+      // theta
+      for (let x = 0; x < 5; x++) {
+         c[x] =
+            state[x]! ^
+            state[x + 5]! ^
+            state[x + 10]! ^
+            state[x + 15]! ^
+            state[x + 20]!;
+      }
+      for (let x = 0; x < 5; x++) {
+         const d = c[(x + 4) % 5]! ^ rotl(c[(x + 1) % 5]!, 1);
+         for (let y = 0; y < 25; y += 5) state[x + y] = state[x + y]! ^ d;
+      }
+
+      // rho + pi
+      let current = state[1]!;
+      for (let i = 0; i < 24; i++) {
+         const j = PI[i]!;
+         const next = state[j]!;
+         state[j] = rotl(current, RHO[i]!);
+         current = next;
+      }
+
+      // chi
+      for (let y = 0; y < 25; y += 5) {
+         const row = state.slice(y, y + 5);
+         for (let x = 0; x < 5; x++) {
+            state[y + x] =
+               row[x]! ^ (~row[(x + 1) % 5]! & MASK & row[(x + 2) % 5]!);
+         }
+      }
+
+      // iota
+      state[0] = state[0]! ^ rc;
+   }
+}
+
+export function keccak256(input: Uint8Array | string): Uint8Array {
+   const data =
+      typeof input === "string" ? new TextEncoder().encode(input) : input;
+
+   // 填充：0x01 ... 0x80（同一字节时为 0x81）
+   const padded = new Uint8Array(
+      (Math.floor(data.length / RATE_BYTES) + 1) * RATE_BYTES,
+   );
+   padded.set(data);
+   padded[data.length] = 0x01;
+   padded[padded.length - 1] = padded[padded.length - 1]! | 0x80;
+
+   const state = new Array<bigint>(25).fill(0n);
+   for (let offset = 0; offset < padded.length; offset += RATE_BYTES) {
+      for (let i = 0; i < RATE_BYTES / 8; i++) {
+         let lane = 0n;
+         for (let b = 7; b >= 0; b--) {
+            lane = (lane << 8n) | BigInt(padded[offset + i * 8 + b]!);
+         }
+         state[i] = state[i]! ^ lane;
+      }
+      keccakF(state);
+   }
+
+   const out = new Uint8Array(32);
+   for (let i = 0; i < 4; i++) {
+      let lane = state[i]!;
+      for (let b = 0; b < 8; b++) {
+         out[i * 8 + b] = Number(lane & 0xffn);
+         lane >>= 8n;
+      }
+   }
+   return out;
+}
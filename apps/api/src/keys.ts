@@ -0,0 +1,6 @@
+import { addressKey } from "./chains.js";
+
+/** 地址按链规范化：EVM 不区分大小写，Solana 等 base58 链保留大小写 */
+export function tokenIdentityKey(chainId: string, tokenAddress: string) {
+   return `${chainId.toLowerCase()}:${addressKey(chainId, tokenAddress)}`;
+}
@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+   configureMetaCache,
+   getCachedMeta,
+   getEnrichment,
+   getMetaFreshness,
+   getMetaRecord,
+   planMetaRefresh,
+   recordTokenMeta,
+   restoreMetaRecord,
+} from "./meta-cache.js";
+
+function configure(maxEntries: number) {
+   configureMetaCache({ maxEntries, staticTtlMs: 10_000, volatileTtlMs: 1000 });
+}
+
+beforeEach(() => {
+   // 容量为 0 时 evict 会清空上一个用例留下的记录
+   configure(0);
+   configure(3);
+});
+
+describe("LRU eviction", () => {
+   it("drops the least recently used entry when full", () => {
+      recordTokenMeta("a", { symbol: "A" }, "token", 0);
+      recordTokenMeta("b", { symbol: "B" }, "token", 0);
+      recordTokenMeta("c", { symbol: "C" }, "token", 0);
+      getCachedMeta("a");
+      recordTokenMeta("d", { symbol: "D" }, "token", 0);
+
+      expect(getMetaRecord("b")).toBeUndefined();
+      expect(getCachedMeta("a")?.symbol).toBe("A");
+      expect(getCachedMeta("d")?.symbol).toBe("D");
+   });
+
+   it("shrinks to the new capacity when reconfigured", () => {
+      recordTokenMeta("a", {}, "token", 0);
+      recordTokenMeta("b", {}, "token", 0);
+      recordTokenMeta("c", {}, "token", 0);
+      configure(1);
+
+      expect(getMetaRecord("a")).toBeUndefined();
+      expect(getMetaRecord("b")).toBeUndefined();
+      expect(getMetaRecord("c")).toBeDefined();
+   });
+});
+
+describe("TTLs", () => {
+   it("expires volatile fields before static ones", () => {
+      recordTokenMeta("a", { name: "A", marketCap: 5 }, "pair", 0);
+
+      expect(getMetaFreshness("a", 1000)).toEqual({
+         static: true,
+         volatile: true,
+      });
+      expect(getMetaFreshness("a", 1001)).toEqual({
+         static: true,
+         volatile: false,
+      });
+      expect(getMetaFreshness("a", 10_001)).toEqual({
+         static: false,
+         volatile: false,
+      });
+      // 过期后仍返回旧值
+      expect(getCachedMeta("a")).toMatchObject({ name: "A", marketCap: 5 });
+   });
+
+   it("reports enrichment status from the volatile timestamp", () => {
+      expect(getEnrichment("a", 0)).toEqual({ status: "missing" });
+
+      recordTokenMeta("a", { marketCap: 5 }, "pair", 0);
+      expect(getEnrichment("a", 1000)).toEqual({
+         status: "fresh",
+         source: "pair",
+         updatedAt: new Date(0).toISOString(),
+      });
+      expect(getEnrichment("a", 1001).status).toBe("stale");
+   });
+
+   it("treats unknown tokens as not fresh", () => {
+      expect(getMetaFreshness("missing", 0)).toEqual({
+         static: false,
+         volatile: false,
+      });
+   });
+});
+
+describe("restoreMetaRecord", () => {
+   it("skips records without a usable static timestamp", () => {
+      restoreMetaRecord("a", {
+         source: "token",
+         static: {},
+         staticAtMs: Number.NaN,
+         volatile: {},
+         volatileAtMs: 0,
+      });
+      expect(getMetaRecord("a")).toBeUndefined();
+   });
+});
+
+describe("planMetaRefresh", () => {
+   /** 一轮刷新需要的上游查询次数（tokens 与交易对各算一次） */
+   function lookups(keys: string[], nowMs: number) {
+      let n = 0;
+      for (const key of keys) {
+         const plan = planMetaRefresh(key, { hasPair: true }, nowMs);
+         n += Number(plan?.viaToken ?? false) + Number(plan?.viaPair ?? false);
+      }
+      return n;
+   }
+
+   it("makes no lookups while both TTLs are fresh", () => {
+      recordTokenMeta("a", {}, "pair", 0);
+      recordTokenMeta("b", {}, "token", 0);
+      expect(lookups(["a", "b"], 500)).toBe(0);
+   });
+
+   it("looks up fewer sources when only the volatile TTL expired", () => {
+      const full = lookups(["a", "b"], 0);
+      recordTokenMeta("a", {}, "pair", 0);
+      recordTokenMeta("b", {}, "token", 0);
+      const volatileOnly = lookups(["a", "b"], 1001);
+
+      expect(full).toBe(4);
+      expect(volatileOnly).toBe(2);
+      expect(planMetaRefresh("a", { hasPair: true }, 1001)).toEqual({
+         viaToken: false,
+         viaPair: true,
+      });
+      expect(planMetaRefresh("b", { hasPair: true }, 1001)).toEqual({
+         viaToken: true,
+         viaPair: false,
+      });
+   });
+
+   it("falls back to the tokens endpoint without a pair to query", () => {
+      recordTokenMeta("a", {}, "pair", 0);
+      expect(planMetaRefresh("a", { hasPair: false }, 1001)).toEqual({
+         viaToken: true,
+         viaPair: false,
+      });
+   });
+});
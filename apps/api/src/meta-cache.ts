@@ -0,0 +1,140 @@
+import type {
+   BubbleEnrichment,
+   EnrichmentSource,
+   MarketMetrics,
+} from "@memebubbles/shared";
+
+export type TokenMeta = {
+   name?: string;
+   symbol?: string;
+   imageUrl?: string;
+   headerImageUrl?: string;
+   marketCap?: number;
+   pairAddress?: string;
+   pairCreatedAtMs?: number;
+   metrics?: MarketMetrics;
+};
+
+/** 名称、图片、交易对等几乎不变的字段 */
+type StaticMeta = Omit<TokenMeta, "marketCap" | "metrics">;
+
+/** 市值与行情指标，按较短的 TTL 刷新 */
+type VolatileMeta = Pick<TokenMeta, "marketCap" | "metrics">;
+
+export type TokenMetaRecord = {
+   source: EnrichmentSource;
+   static: StaticMeta;
+   staticAtMs: number;
+   volatile: VolatileMeta;
+   volatileAtMs: number;
+};
+
+const records = new Map<string, TokenMetaRecord>();
+
+let maxEntries = 2000;
+let staticTtlMs = 24 * 60 * 60 * 1000;
+let volatileTtlMs = 3 * 60_000;
+
+export function configureMetaCache(opts: {
+   maxEntries: number;
+   staticTtlMs: number;
+   volatileTtlMs: number;
+}) {
+   maxEntries = opts.maxEntries;
+   staticTtlMs = opts.staticTtlMs;
+   volatileTtlMs = opts.volatileTtlMs;
+   evict();
+}
+
+/** Map 按插入顺序迭代，最早插入的就是最久未使用的 */
+function touch(tokenKey: string, record: TokenMetaRecord) {
+   records.delete(tokenKey);
+   records.set(tokenKey, record);
+}
+
+function evict() {
+   for (const key of records.keys()) {
+      if (records.size <= maxEntries) return;
+      records.delete(key);
+   }
+}
+
+/**
+ * 过期后仍然返回旧值（上游失败时继续展示），由 getMetaFreshness 决定是否重新请求。
+ */
+export function getCachedMeta(tokenKey: string): TokenMeta | undefined {
+   const record = records.get(tokenKey);
+   if (!record) return undefined;
+   touch(tokenKey, record);
+   return { ...record.static, ...record.volatile };
+}
+
+export function getMetaFreshness(tokenKey: string, nowMs: number) {
+   const record = records.get(tokenKey);
+   return {
+      static: record !== undefined && nowMs - record.staticAtMs <= staticTtlMs,
+      volatile:
+         record !== undefined && nowMs - record.volatileAtMs <= volatileTtlMs,
+   };
+}
+
+/**
+ * 决定一个 token 这次要查哪些上游接口，都不用查时返回 null：
+ * - 静态字段过期（含首次出现）：tokens 接口与 boost 链接中的交易对都查；
+ * - 只有行情过期：之前由交易对补全的只查交易对，其余只查 tokens 接口。
+ */
+export function planMetaRefresh(
+   tokenKey: string,
+   opts: { hasPair: boolean },
+   nowMs: number,
+) {
+   const fresh = getMetaFreshness(tokenKey, nowMs);
+   if (fresh.static && fresh.volatile) return null;
+   if (!fresh.static) return { viaToken: true, viaPair: opts.hasPair };
+
+   // 没有交易对可查时（如关注列表）改用 tokens 接口刷新行情
+   const trackedByPair =
+      opts.hasPair && records.get(tokenKey)?.source === "pair";
+   return { viaToken: !trackedByPair, viaPair: trackedByPair };
+}
+
+/** 一次上游响应同时带有静态与易变字段，两部分一起更新 */
+export function recordTokenMeta(
+   tokenKey: string,
+   meta: TokenMeta,
+   source: EnrichmentSource,
+   nowMs: number,
+) {
+   const { marketCap, metrics, ...rest } = meta;
+   touch(tokenKey, {
+      source,
+      static: rest,
+      staticAtMs: nowMs,
+      volatile: { marketCap, metrics },
+      volatileAtMs: nowMs,
+   });
+   evict();
+}
+
+export function getEnrichment(
+   tokenKey: string,
+   nowMs: number,
+): BubbleEnrichment {
+   const record = records.get(tokenKey);
+   if (!record) return { status: "missing" };
+   return {
+      status: nowMs - record.volatileAtMs <= volatileTtlMs ? "fresh" : "stale",
+      source: record.source,
+      updatedAt: new Date(record.volatileAtMs).toISOString(),
+   };
+}
+
+export function getMetaRecord(tokenKey: string) {
+   return records.get(tokenKey);
+}
+
+export function restoreMetaRecord(tokenKey: string, record: TokenMetaRecord) {
+   if (!Number.isFinite(record.staticAtMs) || !record.static) return;
+   touch(tokenKey, { ...record, source: record.source ?? "token" });
+   evict();
+}
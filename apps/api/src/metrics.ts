@@ -0,0 +1,207 @@
+/**
+ * 手写的 Prometheus 文本格式指标（exposition format 0.0.4），只实现用到的
+ * counter / gauge / histogram。
+ */
+
+type Labels = Record<string, string>;
+
+type Metric = {
+   name: string;
+   help: string;
+   type: "counter" | "gauge" | "histogram";
+   render: () => string[];
+};
+
+const registry = new Map<string, Metric>();
+
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+function escapeLabelValue(v: string) {
+   return v.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+function formatLabels(labels: Labels) {
+   const parts = Object.entries(labels).map(
+      ([k, v]) => `${k}="${escapeLabelValue(v)}"`,
+   );
+   return parts.length ? `{${parts.join(",")}}` : "";
+}
+
+function formatValue(v: number) {
+   if (v === Infinity) return "+Inf";
+   if (v === -Infinity) return "-Inf";
+   return String(v);
+}
+
+/** 标签按名称排序后作为 key，保证同一组标签只对应一条序列 */
+function seriesKey(labels: Labels) {
+   return JSON.stringify(
+      Object.keys(labels)
+         .sort()
+         .map((k) => [k, labels[k]]),
+   );
+}
+
+function register(metric: Metric) {
+   if (registry.has(metric.name)) {
+      throw new Error(`指标重复注册: ${metric.name}`);
+   }
+   registry.set(metric.name, metric);
+}
+
+export function createCounter(name: string, help: string) {
+   const series = new Map<string, { labels: Labels; value: number }>();
+
+   register({
+      name,
+      help,
+      type: "counter",
+      render: () =>
+         Array.from(series.values()).map(
+            (s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`,
+         ),
+   });
+
+   return {
+      inc: (labels: Labels = {}, value = 1) => {
+         const key = seriesKey(labels);
+         const s = series.get(key);
+         if (s) s.value += value;
+         else series.set(key, { labels, value });
+      },
+   };
+}
+
+/** gauge 在抓取时通过回调取值，不需要在业务代码里维护 */
+export function createGauge(
+   name: string,
+   help: string,
+   collect: () => number | Array<{ labels: Labels; value: number }>,
+) {
+   register({
+      name,
+      help,
+      type: "gauge",
+      render: () => {
+         const value = collect();
+         const series =
+            typeof value === "number" ? [{ labels: {}, value }] : value;
+         return series.map(
+            (s) => `${name}${formatLabels(s.labels)} ${formatValue(s.value)}`,
+         );
+      },
+   });
+}
+
+export const DEFAULT_DURATION_BUCKETS = [
+   0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30,
+];
+
+export function createHistogram(
+   name: string,
+   help: string,
+   buckets: number[] = DEFAULT_DURATION_BUCKETS,
+) {
+   const bounds = [...buckets].sort((a, b) => a - b);
+   const series = new Map<
+      string,
+      { labels: Labels; counts: number[]; sum: number; count: number }
+   >();
+
+   register({
+      name,
+      help,
+      type: "histogram",
+      render: () => {
+         const lines: string[] = [];
+         for (const s of series.values()) {
+            let cumulative = 0;
+            bounds.forEach((le, i) => {
+               cumulative += s.counts[i] ?? 0;
+               lines.push(
+                  `${name}_bucket${formatLabels({ ...s.labels, le: formatValue(le) })} ${cumulative}`,
+               );
+            });
+            lines.push(
+               `${name}_bucket${formatLabels({ ...s.labels, le: "+Inf" })} ${s.count}`,
+               `${name}_sum${formatLabels(s.labels)} ${formatValue(s.sum)}`,
+               `${name}_count${formatLabels(s.labels)} ${s.count}`,
+            );
+         }
+         return lines;
+      },
+   });
+
+   const observe = (labels: Labels, value: number) => {
+      const key = seriesKey(labels);
+      let s = series.get(key);
+      if (!s) {
+         s = {
+            labels,
+            counts: new Array(bounds.length).fill(0),
+            sum: 0,
+            count: 0,
+         };
+         series.set(key, s);
+      }
+      const i = bounds.findIndex((le) => value <= le);
+      if (i >= 0) s.counts[i] = (s.counts[i] ?? 0) + 1;
+      s.sum += value;
+      s.count++;
+   };
+
+   return {
+      observe,
+      /** 返回结束计时的函数，结束时才确定标签（例如请求结果） */
+      startTimer: () => {
+         const startedAt = process.hrtime.bigint();
+         return (labels: Labels) =>
+            observe(labels, Number(process.hrtime.bigint() - startedAt) / 1e9);
+      },
+   };
+}
+
+export function renderMetrics() {
+   const lines: string[] = [];
+   for (const metric of registry.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`);
+      lines.push(`# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+   }
+   return `${lines.join("\n")}\n`;
+}
+
+export const upstreamRequests = createCounter(
+   "memebubbles_upstream_requests_total",
+   "Dexscreener 请求次数（每次尝试），按数据源与 HTTP 状态码；没有响应时为 error / timeout",
+);
+
+export const upstreamDuration = createHistogram(
+   "memebubbles_upstream_request_duration_seconds",
+   "Dexscreener 单次请求耗时",
+);
+
+export const upstreamRetries = createCounter(
+   "memebubbles_upstream_retries_total",
+   "Dexscreener 请求重试次数",
+);
+
+export const upstreamTimeouts = createCounter(
+   "memebubbles_upstream_timeouts_total",
+   "Dexscreener 请求超时次数（DexscreenerTimeoutError）",
+);
+
+export const enrichmentLookups = createCounter(
+   "memebubbles_enrichment_lookups_total",
+   "token / 交易对元数据查询结果：hit（命中）、miss（上游无数据）、error（请求失败）",
+);
+
+export const cacheServes = createCounter(
+   "memebubbles_cache_serves_total",
+   "bubbles 接口的缓存命中情况：fresh / stale / miss",
+);
+
+export const refreshDuration = createHistogram(
+   "memebubbles_refresh_duration_seconds",
+   "一次完整刷新（拉取来源 + 补全元数据）的耗时，按模式与结果",
+);
@@ -0,0 +1,74 @@
+import type { BubbleProvenance } from "@memebubbles/shared";
+import { SOURCE_IDS, type SourceId } from "./sources.js";
+
+type SeenWindow = { firstSeenAtMs: number; lastSeenAtMs: number };
+
+const seenByToken = new Map<string, Map<SourceId, SeenWindow>>();
+
+export function recordProvenance(
+   tokenKey: string,
+   source: SourceId,
+   nowMs: number,
+) {
+   let bySource = seenByToken.get(tokenKey);
+   if (!bySource) {
+      bySource = new Map();
+      seenByToken.set(tokenKey, bySource);
+   }
+
+   const existing = bySource.get(source);
+   if (existing) {
+      existing.lastSeenAtMs = nowMs;
+   } else {
+      bySource.set(source, { firstSeenAtMs: nowMs, lastSeenAtMs: nowMs });
+   }
+}
+
+export function getProvenance(tokenKey: string): BubbleProvenance[] {
+   const bySource = seenByToken.get(tokenKey);
+   if (!bySource) return [];
+
+   const out: BubbleProvenance[] = [];
+   for (const source of SOURCE_IDS) {
+      const seen = bySource.get(source);
+      if (!seen) continue;
+      out.push({
+         source,
+         firstSeenAt: new Date(seen.firstSeenAtMs).toISOString(),
+         lastSeenAt: new Date(seen.lastSeenAtMs).toISOString(),
+      });
+   }
+   return out;
+}
+
+export function pruneProvenance(nowMs: number, ttlMs: number) {
+   for (const [tokenKey, bySource] of seenByToken) {
+      for (const [source, seen] of bySource) {
+         if (nowMs - seen.lastSeenAtMs > ttlMs) {
+            bySource.delete(source);
+         }
+      }
+      if (bySource.size === 0) {
+         seenByToken.delete(tokenKey);
+      }
+   }
+}
+
+export function restoreProvenance(
+   tokenKey: string,
+   records: BubbleProvenance[],
+) {
+   const bySource = new Map<SourceId, SeenWindow>();
+   for (const r of records) {
+      const firstSeenAtMs = Date.parse(r.firstSeenAt);
+      const lastSeenAtMs = Date.parse(r.lastSeenAt);
+      if (!Number.isFinite(firstSeenAtMs) || !Number.isFinite(lastSeenAtMs)) {
+         continue;
+      }
+      bySource.set(r.source, { firstSeenAtMs, lastSeenAtMs });
+   }
+
+   if (bySource.size > 0) {
+      seenByToken.set(tokenKey, bySource);
+   }
+}
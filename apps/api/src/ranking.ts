@@ -0,0 +1,66 @@
+import type { BubbleNode, BubbleSortId } from "@memebubbles/shared";
+
+export const SORT_IDS = [
+   "score",
+   "marketCap",
+   "recency",
+   "liquidity",
+   "volume",
+   "hotness",
+   "boostVelocity",
+] as const satisfies readonly BubbleSortId[];
+
+type SortValue = (n: BubbleNode) => number | undefined;
+
+export function lastSeenAtMs(n: BubbleNode) {
+   let latest: number | undefined;
+   for (const p of n.provenance) {
+      const ms = Date.parse(p.lastSeenAt);
+      if (!Number.isNaN(ms) && (latest === undefined || ms > latest)) {
+         latest = ms;
+      }
+   }
+   return latest;
+}
+
+function sortValue(sort: BubbleSortId): SortValue {
+   switch (sort) {
+      case "score":
+         return (n) => n.score;
+      case "marketCap":
+         return (n) => n.marketCap;
+      case "recency":
+         return lastSeenAtMs;
+      case "liquidity":
+         return (n) => n.metrics?.liquidityUsd;
+      case "volume":
+         return (n) => n.metrics?.volume.h24;
+      case "boostVelocity":
+         return (n) => n.boostVelocity?.h1;
+      case "hotness":
+         return (n) => n.hotness?.score;
+   }
+}
+
+/**
+ * 按策略降序重排并重写 rank（从 1 开始）。缺少该指标的节点排在最后；
+ * 同值时保持原有顺序，再按 id 兜底，保证结果稳定。
+ */
+export function rankBubbleNodes(
+   nodes: BubbleNode[],
+   sort: BubbleSortId,
+): BubbleNode[] {
+   const value = sortValue(sort);
+
+   return nodes
+      .map((n) => ({ n, v: value(n) }))
+      .sort((a, b) => {
+         if (a.v !== b.v) {
+            if (a.v === undefined) return 1;
+            if (b.v === undefined) return -1;
+            return b.v - a.v;
+         }
+         return a.n.rank - b.n.rank || a.n.id.localeCompare(b.n.id);
+      })
+      .map(({ n }, idx) => (n.rank === idx + 1 ? n : { ...n, rank: idx + 1 }));
+}
@@ -0,0 +1,129 @@
+import type {
+   BubbleMode,
+   TokenSearchField,
+   TokenSearchHit,
+} from "@memebubbles/shared";
+
+export type SearchDocument = {
+   key: string;
+   chainId: string;
+   tokenAddress: string;
+   symbol?: string;
+   name?: string;
+   description?: string;
+   pairAddress?: string;
+   ranks: Partial<Record<BubbleMode, number>>;
+   lastSeenAtMs?: number;
+};
+
+type MatchKind = "exact" | "prefix" | "contains";
+
+/** 按顺序匹配，取第一条命中的规则作为该 token 的得分 */
+const RULES: { field: TokenSearchField; kind: MatchKind; score: number }[] = [
+   { field: "symbol", kind: "exact", score: 100 },
+   { field: "tokenAddress", kind: "exact", score: 100 },
+   { field: "pairAddress", kind: "exact", score: 90 },
+   { field: "name", kind: "exact", score: 80 },
+   { field: "symbol", kind: "prefix", score: 60 },
+   { field: "tokenAddress", kind: "prefix", score: 50 },
+   { field: "name", kind: "prefix", score: 45 },
+   { field: "pairAddress", kind: "prefix", score: 40 },
+   { field: "name", kind: "contains", score: 30 },
+   { field: "symbol", kind: "contains", score: 25 },
+   { field: "description", kind: "contains", score: 10 },
+];
+
+/** 地址前缀和描述全文匹配太短时噪音很大 */
+const MIN_FUZZY_LENGTH: Partial<Record<TokenSearchField, number>> = {
+   tokenAddress: 3,
+   pairAddress: 3,
+   description: 3,
+};
+
+/** 同一个 token 可能同时出现在 top、recent 和历史目录中，合并为一条 */
+export function mergeSearchDocument(
+   docs: Map<string, SearchDocument>,
+   doc: SearchDocument,
+) {
+   const existing = docs.get(doc.key);
+   if (!existing) {
+      docs.set(doc.key, { ...doc, ranks: { ...doc.ranks } });
+      return;
+   }
+
+   existing.symbol ??= doc.symbol;
+   existing.name ??= doc.name;
+   existing.description ??= doc.description;
+   existing.pairAddress ??= doc.pairAddress;
+   Object.assign(existing.ranks, doc.ranks);
+   if (
+      doc.lastSeenAtMs !== undefined &&
+      (existing.lastSeenAtMs === undefined ||
+         doc.lastSeenAtMs > existing.lastSeenAtMs)
+   ) {
+      existing.lastSeenAtMs = doc.lastSeenAtMs;
+   }
+}
+
+function normalizeQuery(q: string) {
+   return q.trim().replace(/^\$/, "").toLowerCase();
+}
+
+function matches(value: string, q: string, kind: MatchKind) {
+   if (kind === "exact") return value === q;
+   if (kind === "prefix") return value.startsWith(q);
+   return value.includes(q);
+}
+
+export function searchDocuments(
+   docs: Iterable<SearchDocument>,
+   query: string,
+   limit: number,
+): TokenSearchHit[] {
+   const q = normalizeQuery(query);
+   if (!q) return [];
+
+   const hits: TokenSearchHit[] = [];
+   for (const doc of docs) {
+      for (const rule of RULES) {
+         const raw = doc[rule.field];
+         if (!raw) continue;
+         if (
+            rule.kind !== "exact" &&
+            q.length < (MIN_FUZZY_LENGTH[rule.field] ?? 1)
+         ) {
+            continue;
+         }
+         if (!matches(raw.toLowerCase(), q, rule.kind)) continue;
+
+         hits.push({
+            chainId: doc.chainId,
+            tokenAddress: doc.tokenAddress,
+            symbol: doc.symbol,
+            name: doc.name,
+            pairAddress: doc.pairAddress,
+            matchedOn: rule.field,
+            exact: rule.kind === "exact",
+            score: rule.score,
+            ranks: doc.ranks,
+            lastSeenAt:
+               doc.lastSeenAtMs !== undefined
+                  ? new Date(doc.lastSeenAtMs).toISOString()
+                  : undefined,
+         });
+         break;
+      }
+   }
+
+   const onMap = (h: TokenSearchHit) =>
+      h.ranks.top !== undefined || h.ranks.recent !== undefined ? 1 : 0;
+
+   return hits
+      .sort(
+         (a, b) =>
+            b.score - a.score ||
+            onMap(b) - onMap(a) ||
+            (b.lastSeenAt ?? "").localeCompare(a.lastSeenAt ?? ""),
+      )
+      .slice(0, limit);
+}
@@ -0,0 +1,177 @@
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { z } from "zod";
+import type { BubbleSourceId, DexscreenerTopBoost } from "@memebubbles/shared";
+import { fetchDexscreenerList } from "./http.js";
+
+const DEXSCREENER_TOP_BOOSTS_URL =
+   "https://api.dexscreener.com/token-boosts/top/v1" as const;
+const DEXSCREENER_LATEST_BOOSTS_URL =
+   "https://api.dexscreener.com/token-boosts/latest/v1" as const;
+const DEXSCREENER_LATEST_ADS_URL =
+   "https://api.dexscreener.com/ads/latest/v1" as const;
+const DEXSCREENER_LATEST_TOKEN_PROFILES_URL =
+   "https://api.dexscreener.com/token-profiles/latest/v1" as const;
+
+export type SourceId = BubbleSourceId;
+
+export const SOURCE_IDS = ["top", "latest", "ads", "profiles"] as const;
+
+export type SourceAdapter = {
+   id: SourceId;
+   label: string;
+   /** 必需的来源失败时整次刷新失败；其余来源失败时按空列表处理 */
+   required: boolean;
+   /** 原始响应，不做校验（live 与 fixture 共用同一个 normalize） */
+   fetch: () => Promise<unknown>;
+   /** 按 schema 校验并转换，每份响应只在这里校验一次 */
+   normalize: (raw: unknown) => DexscreenerTopBoost[];
+};
+
+const boostLinkSchema = z.object({
+   url: z.string().url(),
+   type: z.string().optional(),
+   label: z.string().optional(),
+});
+
+const boostBaseSchema = z.object({
+   url: z.string().url(),
+   chainId: z.string(),
+   tokenAddress: z.string(),
+   description: z.string().optional(),
+   icon: z.string().optional(),
+   header: z.string().optional(),
+   openGraph: z.string().optional(),
+   links: z.array(boostLinkSchema).optional(),
+   totalAmount: z.number().optional(),
+   amount: z.number().optional(),
+});
+
+const adSchema = z.object({
+   url: z.string().url(),
+   chainId: z.string(),
+   tokenAddress: z.string(),
+   date: z.string().optional(),
+   type: z.string().optional(),
+   impressions: z.number().optional(),
+   durationHours: z.number().optional(),
+});
+
+function normalizeBoost(
+   base: z.infer<typeof boostBaseSchema>,
+): DexscreenerTopBoost {
+   return {
+      ...base,
+      totalAmount: typeof base.totalAmount === "number" ? base.totalAmount : 0,
+   };
+}
+
+function createDexscreenerSource<T>(opts: {
+   id: SourceId;
+   label: string;
+   url: string;
+   required: boolean;
+   schema: z.ZodType<T[]>;
+   toBoost: (item: T) => DexscreenerTopBoost;
+}): SourceAdapter {
+   return {
+      id: opts.id,
+      label: opts.label,
+      required: opts.required,
+      fetch: () => fetchDexscreenerList({ url: opts.url, label: opts.label }),
+      normalize: (raw) => opts.schema.parse(raw).map(opts.toBoost),
+   };
+}
+
+export function createDexscreenerSources(): SourceAdapter[] {
+   return [
+      createDexscreenerSource({
+         id: "top",
+         label: "Dexscreener top boosts",
+         url: DEXSCREENER_TOP_BOOSTS_URL,
+         required: true,
+         schema: z.array(boostBaseSchema.extend({ totalAmount: z.number() })),
+         toBoost: (b) => b,
+      }),
+      createDexscreenerSource({
+         id: "latest",
+         label: "Dexscreener latest boosts",
+         url: DEXSCREENER_LATEST_BOOSTS_URL,
+         required: false,
+         schema: z.array(boostBaseSchema),
+         toBoost: normalizeBoost,
+      }),
+      createDexscreenerSource({
+         id: "ads",
+         label: "Dexscreener latest ads",
+         url: DEXSCREENER_LATEST_ADS_URL,
+         required: false,
+         schema: z.array(adSchema),
+         toBoost: (ad) => ({
+            url: ad.url,
+            chainId: ad.chainId,
+            tokenAddress: ad.tokenAddress,
+            totalAmount: 0,
+         }),
+      }),
+      createDexscreenerSource({
+         id: "profiles",
+         label: "Dexscreener latest token profiles",
+         url: DEXSCREENER_LATEST_TOKEN_PROFILES_URL,
+         required: false,
+         schema: z.array(boostBaseSchema),
+         toBoost: normalizeBoost,
+      }),
+   ];
+}
+
+/**
+ * 从 `${dir}/${id}.json` 回放录制好的上游响应，解析与归一化沿用原来源。
+ */
+export function createFixtureSource(
+   base: SourceAdapter,
+   dir: string,
+): SourceAdapter {
+   const file = path.resolve(dir, `${base.id}.json`);
+   return {
+      ...base,
+      label: `${base.label} (fixture)`,
+      fetch: async () => JSON.parse(await readFile(file, "utf8")) as unknown,
+   };
+}
+
+const registry = new Map<SourceId, SourceAdapter>();
+
+export function registerSource(adapter: SourceAdapter) {
+   registry.set(adapter.id, adapter);
+}
+
+/** 按注册顺序返回，去重时靠前的来源优先 */
+export function listSources() {
+   return Array.from(registry.values());
+}
+
+export function registerDefaultSources(opts: {
+   mode: "live" | "fixture";
+   fixtureDir: string;
+}) {
+   registry.clear();
+   for (const source of createDexscreenerSources()) {
+      registerSource(
+         opts.mode === "fixture"
+            ? createFixtureSource(source, opts.fixtureDir)
+            : source,
+      );
+   }
+}
+
+export async function fetchSourceBoosts(
+   source: SourceAdapter,
+): Promise<DexscreenerTopBoost[]> {
+   const raw = await source.fetch();
+   try {
+      return source.normalize(raw);
+   } catch (err) {
+      throw new Error(`${source.label} 数据解析失败`, { cause: err });
+   }
+}
@@ -0,0 +1,271 @@
+import { existsSync, mkdirSync } from "node:fs";
+import { appendFile, readFile, rename, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export type StorageDriver = "memory" | "json" | "sqlite";
+
+/**
+ * 按 collection 分组的键值存储。读操作全部走内存镜像，写操作同步更新镜像后
+ * 再异步落盘，调用方无需等待 IO。
+ */
+export type Storage = {
+   driver: StorageDriver;
+   get<T>(collection: string, key: string): T | undefined;
+   list<T>(collection: string): T[];
+   put<T>(collection: string, key: string, value: T): void;
+   delete(collection: string, key: string): void;
+   /** 回调内的写操作合并落盘：json 一次追加，sqlite 一个事务 */
+   batch(fn: () => void): void;
+   flush(): Promise<void>;
+   close(): Promise<void>;
+};
+
+type Mirror = Map<string, Map<string, unknown>>;
+
+type Backend = {
+   put(collection: string, key: string, value: unknown): void;
+   delete(collection: string, key: string): void;
+   batch(fn: () => void): void;
+   flush(): Promise<void>;
+   close(): Promise<void>;
+};
+
+function createStorage(
+   driver: StorageDriver,
+   mirror: Mirror,
+   backend: Backend,
+): Storage {
+   const bucket = (collection: string) => {
+      let m = mirror.get(collection);
+      if (!m) {
+         m = new Map();
+         mirror.set(collection, m);
+      }
+      return m;
+   };
+
+   return {
+      driver,
+      get: <T>(collection: string, key: string) =>
+         mirror.get(collection)?.get(key) as T | undefined,
+      list: <T>(collection: string) =>
+         Array.from(mirror.get(collection)?.values() ?? []) as T[],
+      put: (collection, key, value) => {
+         bucket(collection).set(key, value);
+         backend.put(collection, key, value);
+      },
+      delete: (collection, key) => {
+         if (!mirror.get(collection)?.delete(key)) return;
+         backend.delete(collection, key);
+      },
+      batch: (fn) => backend.batch(fn),
+      flush: () => backend.flush(),
+      close: () => backend.close(),
+   };
+}
+
+export function createMemoryStorage(): Storage {
+   return createStorage("memory", new Map(), {
+      put: () => undefined,
+      delete: () => undefined,
+      batch: (fn) => fn(),
+      flush: async () => undefined,
+      close: async () => undefined,
+   });
+}
+
+type JsonOp =
+   { c: string; k: string; v: unknown } | { c: string; k: string; d: true };
+
+function applyOp(mirror: Mirror, op: JsonOp) {
+   if ("d" in op) {
+      mirror.get(op.c)?.delete(op.k);
+      return;
+   }
+
+   let m = mirror.get(op.c);
+   if (!m) {
+      m = new Map();
+      mirror.set(op.c, m);
+   }
+   m.set(op.k, op.v);
+}
+
+function countRecords(mirror: Mirror) {
+   let n = 0;
+   for (const m of mirror.values()) n += m.size;
+   return n;
+}
+
+/**
+ * 追加写 JSON Lines：每行一次 put/delete。启动时重放全部操作，
+ * 日志行数明显多于有效记录时整体重写（先写临时文件再 rename）。
+ */
+async function openJsonStorage(file: string): Promise<Storage> {
+   const mirror: Mirror = new Map();
+   mkdirSync(path.dirname(file), { recursive: true });
+
+   if (existsSync(file)) {
+      const text = await readFile(file, "utf8");
+      for (const line of text.split("\n")) {
+         if (!line.trim()) continue;
+         try {
+            applyOp(mirror, JSON.parse(line) as JsonOp);
+         } catch {
+            continue;
+         }
+      }
+   }
+
+   let queue: Promise<void> = Promise.resolve();
+   let appendedOps = 0;
+   /** batch 期间先攒在这里，结束时一次写入 */
+   let pending: string[] | null = null;
+
+   const enqueue = (task: () => Promise<void>) => {
+      queue = queue.then(task).catch(() => undefined);
+   };
+
+   const compact = async () => {
+      const lines: string[] = [];
+      for (const [c, m] of mirror) {
+         for (const [k, v] of m) {
+            lines.push(JSON.stringify({ c, k, v }));
+         }
+      }
+      const tmp = `${file}.tmp`;
+      await writeFile(tmp, lines.length ? `${lines.join("\n")}\n` : "");
+      await rename(tmp, file);
+      appendedOps = 0;
+   };
+
+   const write = (lines: string[]) => {
+      const text = lines.join("");
+      enqueue(() => appendFile(file, text));
+      appendedOps += lines.length;
+
+      if (appendedOps > Math.max(1000, countRecords(mirror) * 4)) {
+         appendedOps = 0;
+         enqueue(compact);
+      }
+   };
+
+   const append = (op: JsonOp) => {
+      const line = `${JSON.stringify(op)}\n`;
+      if (pending) pending.push(line);
+      else write([line]);
+   };
+
+   enqueue(compact);
+
+   return createStorage("json", mirror, {
+      put: (c, k, v) => append({ c, k, v }),
+      delete: (c, k) => append({ c, k, d: true }),
+      batch: (fn) => {
+         if (pending) return fn();
+         pending = [];
+         try {
+            fn();
+         } finally {
+            const lines = pending;
+            pending = null;
+            if (lines.length) write(lines);
+         }
+      },
+      flush: async () => {
+         await queue;
+      },
+      close: async () => {
+         enqueue(compact);
+         await queue;
+      },
+   });
+}
+
+async function openSqliteStorage(file: string): Promise<Storage> {
+   let sqlite: typeof import("node:sqlite");
+   try {
+      // 用变量作为模块名，避免打包时去掉 node: 前缀（sqlite 只能带前缀加载）
+      const specifier = "node:sqlite";
+      sqlite = (await import(specifier)) as typeof import("node:sqlite");
+   } catch (err) {
+      throw new Error("当前 Node 版本不支持 node:sqlite（需要 Node 22.5+）", {
+         cause: err,
+      });
+   }
+
+   mkdirSync(path.dirname(file), { recursive: true });
+   const db = new sqlite.DatabaseSync(file);
+   db.exec(
+      "CREATE TABLE IF NOT EXISTS kv (collection TEXT NOT NULL, key TEXT NOT NULL, value TEXT NOT NULL, PRIMARY KEY (collection, key))",
+   );
+
+   const mirror: Mirror = new Map();
+   const rows = db.prepare("SELECT collection, key, value FROM kv").all() as {
+      collection: string;
+      key: string;
+      value: string;
+   }[];
+   for (const row of rows) {
+      try {
+         applyOp(mirror, {
+            c: row.collection,
+            k: row.key,
+            v: JSON.parse(row.value) as unknown,
+         });
+      } catch {
+         continue;
+      }
+   }
+
+   const upsert = db.prepare(
+      "INSERT OR REPLACE INTO kv (collection, key, value) VALUES (?, ?, ?)",
+   );
+   const remove = db.prepare("DELETE FROM kv WHERE collection = ? AND key = ?");
+   let inTransaction = false;
+
+   return createStorage("sqlite", mirror, {
+      put: (c, k, v) => {
+         upsert.run(c, k, JSON.stringify(v));
+      },
+      delete: (c, k) => {
+         remove.run(c, k);
+      },
+      // 每条语句单独提交时都要同步刷盘，批量写放进一个事务
+      batch: (fn) => {
+         if (inTransaction) return fn();
+         inTransaction = true;
+         db.exec("BEGIN");
+         try {
+            fn();
+         } finally {
+            // 内存镜像已经生效，出错也提交已执行的写，保持两边一致
+            inTransaction = false;
+            db.exec("COMMIT");
+         }
+      },
+      flush: async () => undefined,
+      close: async () => {
+         db.close();
+      },
+   });
+}
+
+export async function openStorage(opts: {
+   driver: StorageDriver;
+   path?: string;
+}): Promise<Storage> {
+   if (opts.driver === "json") {
+      return await openJsonStorage(
+         path.resolve(opts.path ?? "data/memebubbles.jsonl"),
+      );
+   }
+
+   if (opts.driver === "sqlite") {
+      return await openSqliteStorage(
+         path.resolve(opts.path ?? "data/memebubbles.db"),
+      );
+   }
+
+   return createMemoryStorage();
+}
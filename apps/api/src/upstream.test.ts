@@ -0,0 +1,216 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+   UpstreamBudgetError,
+   UpstreamCircuitOpenError,
+   configureUpstreamGuard,
+   getUpstreamStatus,
+   guardUpstream,
+   isUpstreamOpen,
+} from "./upstream.js";
+
+const TOKENS_URL = "https://api.dexscreener.com/latest/dex/tokens/abc";
+
+function respond(status: number) {
+   return () => Promise.resolve({ status });
+}
+
+/** 手动控制何时返回的请求 */
+function deferred() {
+   let resolve!: (v: { status: number }) => void;
+   const promise = new Promise<{ status: number }>((r) => {
+      resolve = r;
+   });
+   return { request: () => promise, resolve };
+}
+
+function tokensState() {
+   return getUpstreamStatus().tokens?.state;
+}
+
+beforeEach(() => {
+   vi.useFakeTimers();
+   vi.setSystemTime(0);
+   configureUpstreamGuard({
+      listPerMinute: 60,
+      dexPerMinute: 300,
+      breakerThreshold: 2,
+      breakerCooldownMs: 1000,
+   });
+});
+
+afterEach(() => {
+   vi.useRealTimers();
+});
+
+describe("circuit breaker", () => {
+   it("opens after consecutive failures and rejects while open", async () => {
+      await guardUpstream(TOKENS_URL, respond(500));
+      expect(tokensState()).toBe("closed");
+      await guardUpstream(TOKENS_URL, respond(429));
+      expect(tokensState()).toBe("open");
+      expect(isUpstreamOpen("tokens")).toBe(true);
+
+      await expect(guardUpstream(TOKENS_URL, respond(200))).rejects.toThrow(
+         UpstreamCircuitOpenError,
+      );
+   });
+
+   it("does not count other 4xx responses as failures", async () => {
+      await guardUpstream(TOKENS_URL, respond(404));
+      await guardUpstream(TOKENS_URL, respond(404));
+      expect(tokensState()).toBe("closed");
+   });
+
+   it("lets a single probe through after the cooldown", async () => {
+      await guardUpstream(TOKENS_URL, respond(500));
+      await guardUpstream(TOKENS_URL, respond(500));
+      vi.setSystemTime(1000);
+
+      const probe = deferred();
+      const pending = guardUpstream(TOKENS_URL, probe.request);
+      expect(tokensState()).toBe("halfOpen");
+      await expect(guardUpstream(TOKENS_URL, respond(200))).rejects.toThrow(
+         UpstreamCircuitOpenError,
+      );
+
+      probe.resolve({ status: 200 });
+      await pending;
+      expect(tokensState()).toBe("closed");
+   });
+
+   it("reopens when the probe fails", async () => {
+      await guardUpstream(TOKENS_URL, respond(500));
+      await guardUpstream(TOKENS_URL, respond(500));
+      vi.setSystemTime(1000);
+
+      await guardUpstream(TOKENS_URL, respond(503));
+      expect(tokensState()).toBe("open");
+      expect(getUpstreamStatus().tokens?.retryAtMs).toBe(2000);
+   });
+
+   it("ignores requests admitted before the breaker opened", async () => {
+      const lateSuccess = deferred();
+      const lateFailure = deferred();
+      const a = guardUpstream(TOKENS_URL, lateSuccess.request);
+      const b = guardUpstream(TOKENS_URL, lateFailure.request);
+
+      await guardUpstream(TOKENS_URL, respond(500));
+      await guardUpstream(TOKENS_URL, respond(500));
+      vi.setSystemTime(1000);
+
+      const probe = deferred();
+      const pending = guardUpstream(TOKENS_URL, probe.request);
+
+      lateSuccess.resolve({ status: 200 });
+      await a;
+      expect(tokensState()).toBe("halfOpen");
+
+      lateFailure.resolve({ status: 500 });
+      await b;
+      expect(tokensState()).toBe("halfOpen");
+      // 探测仍在进行，不能再放行第二个
+      await expect(guardUpstream(TOKENS_URL, respond(200))).rejects.toThrow(
+         UpstreamCircuitOpenError,
+      );
+
+      probe.resolve({ status: 200 });
+      await pending;
+      expect(tokensState()).toBe("closed");
+   });
+});
+
+describe("retries", () => {
+   function networkError() {
+      return () => Promise.reject(new Error("ECONNRESET"));
+   }
+
+   /** 模拟调用方的重试循环：只有最后一次失败计入熔断 */
+   async function callWithRetries(maxAttempts: number) {
+      for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+         await guardUpstream(TOKENS_URL, networkError(), {
+            willRetry: () => attempt < maxAttempts,
+         }).catch(() => undefined);
+      }
+   }
+
+   it("counts a retried call as a single failure", async () => {
+      configureUpstreamGuard({
+         listPerMinute: 60,
+         dexPerMinute: 300,
+         breakerThreshold: 5,
+         breakerCooldownMs: 1000,
+      });
+      // 一次刷新：3 个并发批次，每批重试 2 次
+      await Promise.all([
+         callWithRetries(2),
+         callWithRetries(2),
+         callWithRetries(2),
+      ]);
+
+      expect(tokensState()).toBe("closed");
+      expect(getUpstreamStatus().tokens?.consecutiveFailures).toBe(3);
+   });
+
+   it("lets a failed probe reopen even when it will be retried", async () => {
+      await guardUpstream(TOKENS_URL, respond(500));
+      await guardUpstream(TOKENS_URL, respond(500));
+      vi.setSystemTime(1000);
+
+      await guardUpstream(TOKENS_URL, networkError(), {
+         willRetry: () => true,
+      }).catch(() => undefined);
+      expect(tokensState()).toBe("open");
+   });
+});
+
+describe("rate budget", () => {
+   it("queues requests until a token is refilled", async () => {
+      configureUpstreamGuard({
+         listPerMinute: 60,
+         dexPerMinute: 6,
+         breakerThreshold: 2,
+         breakerCooldownMs: 1000,
+      });
+      for (let i = 0; i < 6; i++) {
+         await guardUpstream(TOKENS_URL, respond(200));
+      }
+
+      let done = false;
+      const queued = guardUpstream(TOKENS_URL, respond(200)).then(() => {
+         done = true;
+      });
+      await vi.advanceTimersByTimeAsync(9_000);
+      expect(done).toBe(false);
+      await vi.advanceTimersByTimeAsync(1_000);
+      await queued;
+      expect(done).toBe(true);
+   });
+
+   it("fails fast when the wait would be too long", async () => {
+      configureUpstreamGuard({
+         listPerMinute: 60,
+         dexPerMinute: 2,
+         breakerThreshold: 2,
+         breakerCooldownMs: 1000,
+      });
+      await guardUpstream(TOKENS_URL, respond(200));
+      await guardUpstream(TOKENS_URL, respond(200));
+
+      await expect(guardUpstream(TOKENS_URL, respond(200))).rejects.toThrow(
+         UpstreamBudgetError,
+      );
+   });
+
+   it("does not guard urls outside the known families", async () => {
+      configureUpstreamGuard({
+         listPerMinute: 1,
+         dexPerMinute: 1,
+         breakerThreshold: 1,
+         breakerCooldownMs: 1000,
+      });
+      for (let i = 0; i < 3; i++) {
+         await guardUpstream("https://example.com/other", respond(500));
+      }
+      expect(isUpstreamOpen("tokens")).toBe(false);
+   });
+});
@@ -0,0 +1,293 @@
+import { createCounter, createGauge } from "./metrics.js";
+
+/**
+ * Dexscreener 按接口分别限流（列表类 60 次/分钟，tokens / pairs 300 次/分钟）。
+ * 每个接口族一个令牌桶和一个熔断器，所有经过 httpsGetJson 的请求共享。
+ */
+export const UPSTREAM_FAMILIES = [
+   "boosts",
+   "ads",
+   "profiles",
+   "tokens",
+   "pairs",
+] as const;
+
+export type UpstreamFamily = (typeof UPSTREAM_FAMILIES)[number];
+
+const FAMILY_PATHS: Array<[string, UpstreamFamily]> = [
+   ["/token-boosts/", "boosts"],
+   ["/ads/", "ads"],
+   ["/token-profiles/", "profiles"],
+   ["/latest/dex/tokens/", "tokens"],
+   ["/latest/dex/pairs/", "pairs"],
+];
+
+/** 排队等待配额超过这个时间就直接失败，避免请求堆积 */
+const BUDGET_MAX_WAIT_MS = 15_000;
+
+export type CircuitState = "closed" | "open" | "halfOpen";
+
+type Bucket = {
+   capacity: number;
+   refillPerMs: number;
+   tokens: number;
+   updatedAtMs: number;
+};
+
+type Breaker = {
+   state: CircuitState;
+   failures: number;
+   openedAtMs: number | null;
+   probing: boolean;
+};
+
+export class UpstreamCircuitOpenError extends Error {
+   public code = "ERR_CIRCUIT_OPEN" as const;
+
+   constructor(family: UpstreamFamily) {
+      super(`Dexscreener ${family} 接口熔断中，暂停请求`);
+      this.name = "UpstreamCircuitOpenError";
+   }
+}
+
+export class UpstreamBudgetError extends Error {
+   public code = "ERR_RATE_BUDGET" as const;
+
+   constructor(family: UpstreamFamily) {
+      super(`Dexscreener ${family} 接口请求配额不足`);
+      this.name = "UpstreamBudgetError";
+   }
+}
+
+const upstreamRejected = createCounter(
+   "memebubbles_upstream_rejected_total",
+   "未发出的上游请求：circuit（熔断中）/ budget（配额不足）",
+);
+
+const guards = new Map<UpstreamFamily, { bucket: Bucket; breaker: Breaker }>();
+
+let breakerThreshold = 5;
+let breakerCooldownMs = 30_000;
+
+function createBucket(perMinute: number): Bucket {
+   return {
+      capacity: perMinute,
+      refillPerMs: perMinute / 60_000,
+      tokens: perMinute,
+      updatedAtMs: Date.now(),
+   };
+}
+
+export function configureUpstreamGuard(opts: {
+   listPerMinute: number;
+   dexPerMinute: number;
+   breakerThreshold: number;
+   breakerCooldownMs: number;
+}) {
+   breakerThreshold = opts.breakerThreshold;
+   breakerCooldownMs = opts.breakerCooldownMs;
+
+   guards.clear();
+   for (const family of UPSTREAM_FAMILIES) {
+      const perMinute =
+         family === "tokens" || family === "pairs"
+            ? opts.dexPerMinute
+            : opts.listPerMinute;
+      guards.set(family, {
+         bucket: createBucket(perMinute),
+         breaker: {
+            state: "closed",
+            failures: 0,
+            openedAtMs: null,
+            probing: false,
+         },
+      });
+   }
+}
+
+configureUpstreamGuard({
+   listPerMinute: 60,
+   dexPerMinute: 300,
+   breakerThreshold,
+   breakerCooldownMs,
+});
+
+function familyOf(url: string): UpstreamFamily | undefined {
+   const pathname = new URL(url).pathname;
+   return FAMILY_PATHS.find(([prefix]) => pathname.startsWith(prefix))?.[1];
+}
+
+function refill(bucket: Bucket, now: number) {
+   bucket.tokens = Math.min(
+      bucket.capacity,
+      bucket.tokens + (now - bucket.updatedAtMs) * bucket.refillPerMs,
+   );
+   bucket.updatedAtMs = now;
+}
+
+/**
+ * 先预占一个令牌（允许为负，表示排队），返回需要等待的毫秒数；
+ * 等待过长时退回令牌并返回 null。
+ */
+function reserve(bucket: Bucket, now: number) {
+   refill(bucket, now);
+   bucket.tokens -= 1;
+   const waitMs = bucket.tokens < 0 ? -bucket.tokens / bucket.refillPerMs : 0;
+   if (waitMs > BUDGET_MAX_WAIT_MS) {
+      bucket.tokens += 1;
+      return null;
+   }
+   return waitMs;
+}
+
+/**
+ * 熔断器是否允许本次请求；冷却结束后只放行一个探测请求。
+ * 返回 null 表示拒绝，probe 标记本次请求是否为半开状态下的探测。
+ */
+function admit(breaker: Breaker, now: number): { probe: boolean } | null {
+   if (breaker.state === "open") {
+      if (now - (breaker.openedAtMs ?? now) < breakerCooldownMs) return null;
+      breaker.state = "halfOpen";
+      breaker.probing = false;
+   }
+   if (breaker.state === "halfOpen") {
+      if (breaker.probing) return null;
+      breaker.probing = true;
+      return { probe: true };
+   }
+   return { probe: false };
+}
+
+function open(breaker: Breaker) {
+   breaker.state = "open";
+   breaker.openedAtMs = Date.now();
+}
+
+/**
+ * 半开状态只由探测请求决定；熔断前放行、熔断后才返回的请求不改变状态，
+ * 否则迟到的失败会再放行一个探测，迟到的成功会在探测返回前关闭熔断器。
+ * counted 为 false：调用方还会重试这次失败，等重试用完再计数，一次逻辑调用只算一次失败。
+ */
+function settle(breaker: Breaker, ok: boolean, probe: boolean, counted = true) {
+   if (probe) {
+      breaker.probing = false;
+      if (ok) {
+         breaker.state = "closed";
+         breaker.failures = 0;
+         breaker.openedAtMs = null;
+      } else {
+         breaker.failures++;
+         open(breaker);
+      }
+      return;
+   }
+
+   if (breaker.state !== "closed") return;
+   if (ok) {
+      breaker.failures = 0;
+      return;
+   }
+   if (!counted) return;
+   breaker.failures++;
+   if (breaker.failures >= breakerThreshold) open(breaker);
+}
+
+/** 网络错误、超时、429 和 5xx 计为失败；其余 4xx 说明上游正常响应 */
+function isFailureStatus(status: number) {
+   return status === 429 || status >= 500;
+}
+
+/** willRetry：调用方会重试的错误，不计入熔断失败次数 */
+export async function guardUpstream<T extends { status: number }>(
+   url: string,
+   request: () => Promise<T>,
+   opts: { willRetry?: (err: unknown) => boolean } = {},
+): Promise<T> {
+   const family = familyOf(url);
+   const guard = family ? guards.get(family) : undefined;
+   if (!family || !guard) return await request();
+
+   const { bucket, breaker } = guard;
+   const ticket = admit(breaker, Date.now());
+   if (!ticket) {
+      upstreamRejected.inc({ family, reason: "circuit" });
+      throw new UpstreamCircuitOpenError(family);
+   }
+
+   const waitMs = reserve(bucket, Date.now());
+   if (waitMs === null) {
+      // 没有真正发出请求，不影响熔断器状态
+      if (ticket.probe) breaker.probing = false;
+      upstreamRejected.inc({ family, reason: "budget" });
+      throw new UpstreamBudgetError(family);
+   }
+   if (waitMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, waitMs));
+   }
+
+   try {
+      const res = await request();
+      settle(breaker, !isFailureStatus(res.status), ticket.probe);
+      return res;
+   } catch (err) {
+      settle(breaker, false, ticket.probe, !opts.willRetry?.(err));
+      throw err;
+   }
+}
+
+/** 熔断中（含等待探测结果）时，调用方应直接使用旧缓存 */
+export function isUpstreamOpen(family: UpstreamFamily) {
+   const state = guards.get(family)?.breaker.state;
+   return state === "open" || state === "halfOpen";
+}
+
+export function getUpstreamStatus() {
+   const now = Date.now();
+   return Object.fromEntries(
+      Array.from(guards, ([family, { bucket, breaker }]) => {
+         refill(bucket, now);
+         return [
+            family,
+            {
+               state: breaker.state,
+               consecutiveFailures: breaker.failures,
+               openedAtMs: breaker.openedAtMs,
+               retryAtMs:
+                  breaker.state === "open" && breaker.openedAtMs !== null
+                     ? breaker.openedAtMs + breakerCooldownMs
+                     : null,
+               budget: {
+                  available: Math.max(0, Math.floor(bucket.tokens)),
+                  perMinute: bucket.capacity,
+               },
+            },
+         ];
+      }),
+   );
+}
+
+const CIRCUIT_STATE_VALUES: Record<CircuitState, number> = {
+   closed: 0,
+   halfOpen: 1,
+   open: 2,
+};
+
+createGauge(
+   "memebubbles_upstream_circuit_state",
+   "上游熔断器状态：0 关闭 / 1 半开 / 2 打开",
+   () =>
+      Array.from(guards, ([family, { breaker }]) => ({
+         labels: { family },
+         value: CIRCUIT_STATE_VALUES[breaker.state],
+      })),
+);
+
+createGauge(
+   "memebubbles_upstream_budget_available",
+   "各接口族当前剩余的请求配额",
+   () =>
+      Array.from(guards, ([family, { bucket }]) => {
+         refill(bucket, Date.now());
+         return { labels: { family }, value: Math.max(0, bucket.tokens) };
+      }),
+);
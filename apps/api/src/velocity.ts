@@ -0,0 +1,90 @@
+import type { BoostVelocity, BoostVelocityWindow } from "@memebubbles/shared";
+
+/** [时间戳, 累计 boost 数量]，只在数量变化时追加 */
+export type BoostSample = [atMs: number, totalAmount: number];
+
+type BoostTrack = { samples: BoostSample[]; lastSeenAtMs: number };
+
+export const BOOST_VELOCITY_WINDOWS_MS: Record<BoostVelocityWindow, number> = {
+   m5: 5 * 60 * 1000,
+   h1: 60 * 60 * 1000,
+   h6: 6 * 60 * 60 * 1000,
+};
+
+const MAX_WINDOW_MS = BOOST_VELOCITY_WINDOWS_MS.h6;
+
+const tracks = new Map<string, BoostTrack>();
+
+export function recordBoostAmount(
+   tokenKey: string,
+   totalAmount: number,
+   nowMs: number,
+) {
+   let track = tracks.get(tokenKey);
+   if (!track) {
+      track = { samples: [], lastSeenAtMs: nowMs };
+      tracks.set(tokenKey, track);
+   }
+   track.lastSeenAtMs = nowMs;
+
+   const last = track.samples[track.samples.length - 1];
+   if (!last || last[1] !== totalAmount) {
+      track.samples.push([nowMs, totalAmount]);
+   }
+
+   // 窗口之外只需保留最后一个样本作为基线
+   const cutoff = nowMs - MAX_WINDOW_MS;
+   while (track.samples.length > 1 && (track.samples[1]?.[0] ?? 0) <= cutoff) {
+      track.samples.shift();
+   }
+}
+
+/**
+ * 各窗口内累计数量的增量：取窗口起点时的数量作为基线；
+ * 首次出现晚于窗口起点时，以首次出现的数量为基线。
+ */
+export function getBoostVelocity(
+   tokenKey: string,
+   nowMs: number,
+): BoostVelocity | undefined {
+   const samples = tracks.get(tokenKey)?.samples;
+   const latest = samples?.[samples.length - 1];
+   if (!samples || !latest) return undefined;
+
+   const out: BoostVelocity = {};
+   for (const [window, ms] of Object.entries(BOOST_VELOCITY_WINDOWS_MS)) {
+      const start = nowMs - ms;
+      let base = samples[0] ?? latest;
+      for (const s of samples) {
+         if (s[0] > start) break;
+         base = s;
+      }
+      out[window as BoostVelocityWindow] = latest[1] - base[1];
+   }
+   return out;
+}
+
+export function getBoostSamples(tokenKey: string): BoostSample[] {
+   return tracks.get(tokenKey)?.samples.slice() ?? [];
+}
+
+export function pruneBoostSamples(nowMs: number, ttlMs: number) {
+   for (const [tokenKey, track] of tracks) {
+      if (nowMs - track.lastSeenAtMs > ttlMs) {
+         tracks.delete(tokenKey);
+      }
+   }
+}
+
+export function restoreBoostSamples(
+   tokenKey: string,
+   samples: BoostSample[],
+   lastSeenAtMs: number,
+) {
+   const valid = samples.filter(
+      (s) => Number.isFinite(s[0]) && Number.isFinite(s[1]),
+   );
+   if (valid.length > 0) {
+      tracks.set(tokenKey, { samples: valid, lastSeenAtMs });
+   }
+}
@@ -0,0 +1,118 @@
+import { randomUUID } from "node:crypto";
+import type {
+   Watchlist,
+   WatchlistSummary,
+   WatchlistToken,
+} from "@memebubbles/shared";
+import { tokenIdentityKey } from "./keys.js";
+import type { Storage } from "./storage.js";
+
+const WATCHLISTS_COLLECTION = "watchlists";
+
+export const WATCHLIST_MAX_TOKENS = 200;
+
+export function summarizeWatchlist(list: Watchlist): WatchlistSummary {
+   return {
+      id: list.id,
+      name: list.name,
+      tokenCount: list.tokens.length,
+      createdAt: list.createdAt,
+      updatedAt: list.updatedAt,
+   };
+}
+
+export type WatchlistStore = ReturnType<typeof createWatchlistStore>;
+
+export function createWatchlistStore(storage: Storage) {
+   const save = (list: Watchlist) => {
+      storage.put<Watchlist>(WATCHLISTS_COLLECTION, list.id, list);
+      return list;
+   };
+
+   /** 按 token 身份去重追加，超过上限的部分丢弃 */
+   const mergeTokens = (
+      existing: WatchlistToken[],
+      tokens: { chainId: string; tokenAddress: string }[],
+      addedAt: string,
+   ) => {
+      const out = existing.slice();
+      const keys = new Set(
+         out.map((t) => tokenIdentityKey(t.chainId, t.tokenAddress)),
+      );
+      for (const t of tokens) {
+         if (out.length >= WATCHLIST_MAX_TOKENS) break;
+         const key = tokenIdentityKey(t.chainId, t.tokenAddress);
+         if (keys.has(key)) continue;
+         keys.add(key);
+         out.push({ ...t, addedAt });
+      }
+      return out;
+   };
+
+   const get = (id: string) =>
+      storage.get<Watchlist>(WATCHLISTS_COLLECTION, id);
+
+   return {
+      get,
+
+      list(): WatchlistSummary[] {
+         return storage
+            .list<Watchlist>(WATCHLISTS_COLLECTION)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+            .map(summarizeWatchlist);
+      },
+
+      create(
+         name: string,
+         tokens: { chainId: string; tokenAddress: string }[] = [],
+      ) {
+         const now = new Date().toISOString();
+         return save({
+            id: randomUUID(),
+            name,
+            tokens: mergeTokens([], tokens, now),
+            createdAt: now,
+            updatedAt: now,
+         });
+      },
+
+      rename(id: string, name: string) {
+         const list = get(id);
+         if (!list) return undefined;
+         return save({ ...list, name, updatedAt: new Date().toISOString() });
+      },
+
+      remove(id: string) {
+         if (!get(id)) return false;
+         storage.delete(WATCHLISTS_COLLECTION, id);
+         return true;
+      },
+
+      addTokens(
+         id: string,
+         tokens: { chainId: string; tokenAddress: string }[],
+      ) {
+         const list = get(id);
+         if (!list) return undefined;
+         const now = new Date().toISOString();
+         return save({
+            ...list,
+            tokens: mergeTokens(list.tokens, tokens, now),
+            updatedAt: now,
+         });
+      },
+
+      removeToken(id: string, chainId: string, tokenAddress: string) {
+         const list = get(id);
+         if (!list) return undefined;
+         const key = tokenIdentityKey(chainId, tokenAddress);
+         return save({
+            ...list,
+            tokens: list.tokens.filter(
+               (t) => tokenIdentityKey(t.chainId, t.tokenAddress) !== key,
+            ),
+            updatedAt: new Date().toISOString(),
+         });
+      },
+   };
+}
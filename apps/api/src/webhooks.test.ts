@@ -0,0 +1,94 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import type { AlertEvent, WebhookDeadLetter } from "@memebubbles/shared";
+import { afterEach, describe, expect, it } from "vitest";
+import { createMemoryStorage } from "./storage.js";
+import { createWebhookDispatcher } from "./webhooks.js";
+
+const DEAD_LETTERS_COLLECTION = "webhook-dead-letters";
+
+const servers: http.Server[] = [];
+
+afterEach(async () => {
+   await Promise.all(
+      servers.splice(0).map((s) => new Promise((r) => s.close(r))),
+   );
+});
+
+/** 所有请求都返回 400，投递会直接进死信 */
+async function rejectingServer() {
+   const server = http.createServer((_req, res) => {
+      res.statusCode = 400;
+      res.end();
+   });
+   servers.push(server);
+   await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+   return `http://127.0.0.1:${(server.address() as AddressInfo).port}/hook`;
+}
+
+function deadLetter(i: number, webhookId: string): WebhookDeadLetter {
+   return {
+      id: `old-${i}`,
+      webhookId,
+      event: {
+         id: `event-${i}`,
+         type: "alert.fired",
+         createdAt: new Date(i).toISOString(),
+         data: {} as AlertEvent,
+      },
+      attempts: 1,
+      lastError: "HTTP 400",
+      failedAt: new Date(i).toISOString(),
+   };
+}
+
+describe("webhook dead letters", () => {
+   it("keeps only the newest 500", async () => {
+      const storage = createMemoryStorage();
+      const dispatcher = createWebhookDispatcher(storage, {
+         maxAttempts: 1,
+         timeoutMs: 1000,
+         log: { warn: () => {} },
+      });
+      const webhook = dispatcher.create({
+         url: await rejectingServer(),
+         events: ["alert.fired"],
+         enabled: true,
+      });
+      for (let i = 0; i < 500; i++) {
+         storage.put(
+            DEAD_LETTERS_COLLECTION,
+            `old-${i}`,
+            deadLetter(i, webhook.id),
+         );
+      }
+
+      dispatcher.publishAlert({} as AlertEvent);
+      await expect
+         .poll(() => dispatcher.deadLetters({ limit: 1 })[0]?.id)
+         .not.toMatch(/^old-/);
+      dispatcher.stop();
+
+      const all = dispatcher.deadLetters({ limit: 1000 });
+      expect(all).toHaveLength(500);
+      expect(all.some((d) => d.id === "old-0")).toBe(false);
+      expect(all.some((d) => d.id === "old-1")).toBe(true);
+   });
+
+   it("trims an oversized store on start", () => {
+      const storage = createMemoryStorage();
+      for (let i = 0; i < 510; i++) {
+         storage.put(DEAD_LETTERS_COLLECTION, `old-${i}`, deadLetter(i, "w"));
+      }
+      const dispatcher = createWebhookDispatcher(storage, {
+         maxAttempts: 1,
+         timeoutMs: 1000,
+         log: { warn: () => {} },
+      });
+      dispatcher.start();
+      dispatcher.stop();
+
+      expect(dispatcher.deadLetters({ limit: 1000 })).toHaveLength(500);
+      expect(dispatcher.deadLetters({ limit: 1000 }).at(-1)?.id).toBe("old-10");
+   });
+});
@@ -0,0 +1,374 @@
+import { createHmac, randomBytes, randomUUID } from "node:crypto";
+import type {
+   AlertEvent,
+   BubbleMode,
+   BubbleNode,
+   Webhook,
+   WebhookDeadLetter,
+   WebhookDelivery,
+   WebhookDeliveryOutcome,
+   WebhookEvent,
+   WebhookEventType,
+} from "@memebubbles/shared";
+import { diffBubbleNodes } from "./diff.js";
+import type { RefreshEvent } from "./events.js";
+import { httpPostJson } from "./http.js";
+import type { Storage } from "./storage.js";
+
+export const WEBHOOK_EVENT_TYPES = [
+   "token.entered",
+   "token.left",
+   "token.rankChanged",
+   "alert.fired",
+] as const satisfies readonly WebhookEventType[];
+
+const WEBHOOKS_COLLECTION = "webhooks";
+const OUTBOX_COLLECTION = "webhook-outbox";
+const DELIVERIES_COLLECTION = "webhook-deliveries";
+const DEAD_LETTERS_COLLECTION = "webhook-dead-letters";
+
+const DELIVERIES_MAX = 500;
+const DEAD_LETTERS_MAX = 500;
+const RETRY_BASE_MS = 1000;
+const RETRY_MAX_MS = 5 * 60 * 1000;
+
+type StoredWebhook = Webhook & { secret: string };
+
+type OutboxEntry = {
+   id: string;
+   webhookId: string;
+   event: WebhookEvent;
+   attempt: number;
+   nextAttemptAtMs: number;
+};
+
+export type WebhookInput = {
+   url: string;
+   secret?: string;
+   events: WebhookEventType[];
+   enabled: boolean;
+};
+
+export type WebhookDispatcherOptions = {
+   maxAttempts: number;
+   timeoutMs: number;
+   log: {
+      warn: (obj: unknown, msg: string) => void;
+   };
+};
+
+function toPublic({ secret: _secret, ...webhook }: StoredWebhook): Webhook {
+   return webhook;
+}
+
+/**
+ * 签名：HMAC-SHA256(secret, `${timestamp}.${body}`)，接收方用同样方式计算后比对，
+ * 并检查时间戳防重放。
+ */
+export function signWebhookPayload(
+   secret: string,
+   timestamp: string,
+   body: string,
+) {
+   return createHmac("sha256", secret)
+      .update(`${timestamp}.${body}`)
+      .digest("hex");
+}
+
+function retryDelayMs(attempt: number) {
+   return Math.min(RETRY_BASE_MS * 2 ** (attempt - 1), RETRY_MAX_MS);
+}
+
+/** 网络错误、超时、408 / 429 / 5xx 重试，其余 4xx 直接进死信 */
+function isRetryableStatus(status: number) {
+   return status === 408 || status === 429 || status >= 500;
+}
+
+export type WebhookDispatcher = ReturnType<typeof createWebhookDispatcher>;
+
+/**
+ * 待投递的事件先写入 outbox，成功或进入死信后再删除；重启后从 outbox 继续投递。
+ */
+export function createWebhookDispatcher(
+   storage: Storage,
+   opts: WebhookDispatcherOptions,
+) {
+   const timers = new Map<string, NodeJS.Timeout>();
+   const previousByMode = new Map<BubbleMode, BubbleNode[]>();
+   let stopped = false;
+
+   const getStored = (id: string) =>
+      storage.get<StoredWebhook>(WEBHOOKS_COLLECTION, id);
+
+   /** 只保留最新的 max 条 */
+   const trim = <T extends { id: string }>(
+      collection: string,
+      max: number,
+      at: (item: T) => string,
+   ) => {
+      const all = storage.list<T>(collection);
+      if (all.length <= max) return;
+      all.sort((a, b) => at(b).localeCompare(at(a)))
+         .slice(max)
+         .forEach((item) => storage.delete(collection, item.id));
+   };
+
+   const logDelivery = (delivery: WebhookDelivery) => {
+      storage.put(DELIVERIES_COLLECTION, delivery.id, delivery);
+      trim<WebhookDelivery>(DELIVERIES_COLLECTION, DELIVERIES_MAX, (d) => d.at);
+   };
+
+   const trimDeadLetters = () =>
+      trim<WebhookDeadLetter>(
+         DEAD_LETTERS_COLLECTION,
+         DEAD_LETTERS_MAX,
+         (d) => d.failedAt,
+      );
+
+   const addDeadLetter = (dead: WebhookDeadLetter) => {
+      storage.put(DEAD_LETTERS_COLLECTION, dead.id, dead);
+      trimDeadLetters();
+   };
+
+   const schedule = (entry: OutboxEntry) => {
+      if (stopped) return;
+      clearTimeout(timers.get(entry.id));
+      const delay = Math.max(0, entry.nextAttemptAtMs - Date.now());
+      timers.set(
+         entry.id,
+         setTimeout(() => {
+            timers.delete(entry.id);
+            void attempt(entry);
+         }, delay),
+      );
+   };
+
+   const attempt = async (entry: OutboxEntry) => {
+      const webhook = getStored(entry.webhookId);
+      if (!webhook) {
+         storage.delete(OUTBOX_COLLECTION, entry.id);
+         return;
+      }
+
+      const body = JSON.stringify(entry.event);
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const startedAtMs = Date.now();
+
+      let status: number | undefined;
+      let error: string | undefined;
+      try {
+         const res = await httpPostJson(
+            webhook.url,
+            body,
+            {
+               "x-memebubbles-event": entry.event.type,
+               "x-memebubbles-delivery": entry.id,
+               "x-memebubbles-timestamp": timestamp,
+               "x-memebubbles-signature": `sha256=${signWebhookPayload(webhook.secret, timestamp, body)}`,
+            },
+            opts.timeoutMs,
+         );
+         status = res.status;
+         if (status < 200 || status >= 300) error = `HTTP ${status}`;
+      } catch (err) {
+         error = err instanceof Error ? err.message : String(err);
+      }
+
+      const retryable =
+         error !== undefined &&
+         (status === undefined || isRetryableStatus(status)) &&
+         entry.attempt < opts.maxAttempts;
+      const outcome: WebhookDeliveryOutcome =
+         error === undefined ? "success" : retryable ? "retry" : "failed";
+
+      logDelivery({
+         id: `${entry.id}:${entry.attempt}`,
+         deliveryId: entry.id,
+         webhookId: webhook.id,
+         eventId: entry.event.id,
+         type: entry.event.type,
+         attempt: entry.attempt,
+         at: new Date(startedAtMs).toISOString(),
+         durationMs: Date.now() - startedAtMs,
+         status,
+         error,
+         outcome,
+      });
+
+      if (outcome === "retry") {
+         const next: OutboxEntry = {
+            ...entry,
+            attempt: entry.attempt + 1,
+            nextAttemptAtMs: Date.now() + retryDelayMs(entry.attempt),
+         };
+         storage.put(OUTBOX_COLLECTION, next.id, next);
+         schedule(next);
+         return;
+      }
+
+      storage.delete(OUTBOX_COLLECTION, entry.id);
+      if (outcome === "failed") {
+         opts.log.warn(
+            { webhookId: webhook.id, deliveryId: entry.id, error },
+            "webhook 投递失败，已进入死信队列",
+         );
+         addDeadLetter({
+            id: entry.id,
+            webhookId: webhook.id,
+            event: entry.event,
+            attempts: entry.attempt,
+            lastError: error ?? "未知错误",
+            failedAt: new Date().toISOString(),
+         });
+      }
+   };
+
+   const enqueue = (webhookId: string, event: WebhookEvent) => {
+      const entry: OutboxEntry = {
+         id: randomUUID(),
+         webhookId,
+         event,
+         attempt: 1,
+         nextAttemptAtMs: Date.now(),
+      };
+      storage.put(OUTBOX_COLLECTION, entry.id, entry);
+      schedule(entry);
+   };
+
+   const publish = (event: Omit<WebhookEvent, "id" | "createdAt">) => {
+      const subscribers = storage
+         .list<StoredWebhook>(WEBHOOKS_COLLECTION)
+         .filter((w) => w.enabled && w.events.includes(event.type));
+      if (subscribers.length === 0) return;
+
+      const full = {
+         ...event,
+         id: randomUUID(),
+         createdAt: new Date().toISOString(),
+      } as WebhookEvent;
+      for (const w of subscribers) enqueue(w.id, full);
+   };
+
+   return {
+      list(): Webhook[] {
+         return storage
+            .list<StoredWebhook>(WEBHOOKS_COLLECTION)
+            .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+            .map(toPublic);
+      },
+
+      get(id: string) {
+         const stored = getStored(id);
+         return stored ? toPublic(stored) : undefined;
+      },
+
+      /** 只有创建时会返回 secret */
+      create(input: WebhookInput): Webhook & { secret: string } {
+         const now = new Date().toISOString();
+         const stored: StoredWebhook = {
+            id: randomUUID(),
+            url: input.url,
+            secret: input.secret ?? randomBytes(24).toString("base64url"),
+            events: input.events,
+            enabled: input.enabled,
+            createdAt: now,
+            updatedAt: now,
+         };
+         storage.put(WEBHOOKS_COLLECTION, stored.id, stored);
+         return { ...toPublic(stored), secret: stored.secret };
+      },
+
+      update(id: string, patch: Partial<WebhookInput>) {
+         const stored = getStored(id);
+         if (!stored) return undefined;
+         const next: StoredWebhook = {
+            ...stored,
+            ...patch,
+            secret: patch.secret ?? stored.secret,
+            updatedAt: new Date().toISOString(),
+         };
+         storage.put(WEBHOOKS_COLLECTION, id, next);
+         return toPublic(next);
+      },
+
+      remove(id: string) {
+         if (!getStored(id)) return false;
+         storage.delete(WEBHOOKS_COLLECTION, id);
+         return true;
+      },
+
+      deliveries(query: { webhookId?: string; limit: number }) {
+         return storage
+            .list<WebhookDelivery>(DELIVERIES_COLLECTION)
+            .filter((d) => !query.webhookId || d.webhookId === query.webhookId)
+            .sort((a, b) => b.at.localeCompare(a.at))
+            .slice(0, query.limit);
+      },
+
+      deadLetters(query: { webhookId?: string; limit: number }) {
+         return storage
+            .list<WebhookDeadLetter>(DEAD_LETTERS_COLLECTION)
+            .filter((d) => !query.webhookId || d.webhookId === query.webhookId)
+            .sort((a, b) => b.failedAt.localeCompare(a.failedAt))
+            .slice(0, query.limit);
+      },
+
+      /** 死信重新投递：从第 1 次尝试开始，成功前保留在 outbox */
+      redeliver(id: string) {
+         const dead = storage.get<WebhookDeadLetter>(
+            DEAD_LETTERS_COLLECTION,
+            id,
+         );
+         if (!dead || !getStored(dead.webhookId)) return false;
+         storage.delete(DEAD_LETTERS_COLLECTION, id);
+         enqueue(dead.webhookId, dead.event);
+         return true;
+      },
+
+      publishAlert(event: AlertEvent) {
+         publish({ type: "alert.fired", data: event });
+      },
+
+      /** 与上一次刷新结果比较，推送进入、离开和排名变化；启动后第一次只记录基线 */
+      publishRefresh({ mode, data }: RefreshEvent) {
+         const previous = previousByMode.get(mode);
+         previousByMode.set(mode, data);
+         if (!previous) return;
+
+         const diff = diffBubbleNodes(previous, data);
+         const previousById = new Map(previous.map((n) => [n.id, n]));
+
+         for (const node of diff.added) {
+            publish({ type: "token.entered", data: { mode, node } });
+         }
+         for (const id of diff.removed) {
+            const node = previousById.get(id);
+            if (node) publish({ type: "token.left", data: { mode, node } });
+         }
+         for (const node of diff.changed) {
+            const previousRank = previousById.get(node.id)?.rank;
+            if (previousRank === undefined || previousRank === node.rank) {
+               continue;
+            }
+            publish({
+               type: "token.rankChanged",
+               data: { mode, node, previousRank },
+            });
+         }
+      },
+
+      /** 恢复重启前未完成的投递 */
+      start() {
+         trimDeadLetters();
+         for (const entry of storage.list<OutboxEntry>(OUTBOX_COLLECTION)) {
+            schedule(entry);
+         }
+      },
+
+      stop() {
+         stopped = true;
+         for (const timer of timers.values()) clearTimeout(timer);
+         timers.clear();
+      },
+   };
+}
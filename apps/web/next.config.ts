@@ -1,6 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
+  // shared 直接导出 TypeScript 源码（含链登记表等运行时代码），需要 Next 编译
+  transpilePackages: ["@memebubbles/shared"],
   async rewrites() {
     const apiBase = process.env.NEXT_PUBLIC_API_BASE_URL;
     if (!apiBase) {
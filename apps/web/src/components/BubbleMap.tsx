@@ -1,8 +1,18 @@
 "use client";
 
 import { forceCenter, forceCollide, forceManyBody, forceSimulation, forceX, forceY } from "d3-force";
-import type { BubbleNode, RecentBoostBubblesResponse } from "@memebubbles/shared";
-import { useEffect, useRef, useState } from "react";
+import type {
+  BubbleNode,
+  BubbleSourceId,
+  BubbleStreamDiffEvent,
+  BubbleStreamSnapshotEvent,
+  HotnessComponent,
+  MarketWindow,
+  RecentBoostBubblesResponse
+} from "@memebubbles/shared";
+import { chainDisplayName, getChainInfo } from "@memebubbles/shared";
+import NextImage from "next/image";
+import { useEffect, useMemo, useRef, useState } from "react";
 
 type SimNode = BubbleNode & {
   x: number;
@@ -36,29 +46,142 @@ function easeInBack(t: number) {
   return c3 * t * t * t - c1 * t * t;
 }
 
-function calcRadiusFromMarketCap(marketCap: number, minMarketCap: number, maxMarketCap: number, minR: number, maxR: number) {
-  const v = Math.max(1, marketCap);
-  const minV = Math.max(1, minMarketCap);
-  const maxV = Math.max(minV + 1, maxMarketCap);
+function calcRadiusLog(value: number, minValue: number, maxValue: number, minR: number, maxR: number, curve: number) {
+  const v = Math.max(1, value);
+  const minV = Math.max(1, minValue);
+  const maxV = Math.max(minV + 1, maxValue);
 
   const logV = Math.log10(v);
   const logMin = Math.log10(minV);
   const logMax = Math.log10(maxV);
 
   const t0 = logMax === logMin ? 0.5 : clamp((logV - logMin) / (logMax - logMin), 0, 1);
-
-  const curve = 2.4;
   const t = Math.pow(t0, curve);
 
   return minR + (maxR - minR) * t;
 }
 
-function calcRadiusFallback(score: number, minR: number, maxR: number) {
-  const v = Math.sqrt(Math.max(0, score));
-  const t = clamp(v / 32, 0, 1);
+function calcRadiusSqrt(value: number, minValue: number, maxValue: number, minR: number, maxR: number, cap: number | undefined) {
+  const v = Math.sqrt(Math.max(0, value));
+
+  if (cap !== undefined) {
+    const t = clamp(v / Math.sqrt(cap), 0, 1);
+    return minR + (maxR - minR) * t;
+  }
+
+  const lo = Math.sqrt(Math.max(0, minValue));
+  const hi = Math.sqrt(Math.max(0, maxValue));
+  const t = hi === lo ? 0.5 : clamp((v - lo) / (hi - lo), 0, 1);
   return minR + (maxR - minR) * t;
 }
 
+type SizeMetric = "marketCap" | "score" | "liquidity" | "volume24h" | "priceChange24h";
+
+type SizeScale = { kind: "log"; curve: number } | { kind: "sqrt"; cap?: number };
+
+type SizeMetricConfig = {
+  label: string;
+  value: (n: BubbleNode) => number | undefined;
+  scale: SizeScale;
+  format: (v: number) => string;
+};
+
+const SIZE_METRICS: Record<SizeMetric, SizeMetricConfig> = {
+  marketCap: {
+    label: "市值",
+    value: (n) => n.marketCap,
+    scale: { kind: "log", curve: 2.4 },
+    format: (v) => `$${formatMarketCap(v)}`
+  },
+  score: {
+    label: "Boost 分数",
+    value: (n) => n.score,
+    scale: { kind: "sqrt", cap: 1024 },
+    format: (v) => `${Math.round(v)}`
+  },
+  liquidity: {
+    label: "流动性",
+    value: (n) => n.metrics?.liquidityUsd,
+    scale: { kind: "log", curve: 1.8 },
+    format: (v) => `$${formatMarketCap(v)}`
+  },
+  volume24h: {
+    label: "24h 成交额",
+    value: (n) => n.metrics?.volume.h24,
+    scale: { kind: "log", curve: 1.8 },
+    format: (v) => `$${formatMarketCap(v)}`
+  },
+  priceChange24h: {
+    label: "24h 涨跌幅（绝对值）",
+    value: (n) => {
+      const v = n.metrics?.priceChange.h24;
+      return typeof v === "number" ? Math.abs(v) : undefined;
+    },
+    scale: { kind: "sqrt" },
+    format: (v) => `±${v.toFixed(v < 10 ? 1 : 0)}%`
+  }
+};
+
+const SIZE_METRIC_ORDER: SizeMetric[] = ["marketCap", "score", "liquidity", "volume24h", "priceChange24h"];
+
+const BASE_MIN_R = 18;
+const BASE_MAX_R = 70;
+const SIZE_COVERAGE_MIN = 0.6;
+
+function calcRadius(value: number, minValue: number, maxValue: number, scale: SizeScale) {
+  return scale.kind === "log"
+    ? calcRadiusLog(value, minValue, maxValue, BASE_MIN_R, BASE_MAX_R, scale.curve)
+    : calcRadiusSqrt(value, minValue, maxValue, BASE_MIN_R, BASE_MAX_R, scale.cap);
+}
+
+function legendValues(minValue: number, maxValue: number, scale: SizeScale) {
+  const mid =
+    scale.kind === "log"
+      ? Math.pow(10, (Math.log10(Math.max(1, minValue)) + Math.log10(Math.max(1, maxValue))) / 2)
+      : Math.pow((Math.sqrt(Math.max(0, minValue)) + Math.sqrt(Math.max(0, maxValue))) / 2, 2);
+
+  const values = [maxValue, mid, minValue];
+  return values.filter((v, i) => values.indexOf(v) === i);
+}
+
+type SizeModel = {
+  metric: SizeMetric;
+  fallback: boolean;
+  baseRadii: number[];
+  legend: { value: number; r: number }[];
+};
+
+/**
+ * 选中指标覆盖不足 60% 的节点时退回按 Boost 分数计算半径；缺失值的节点取最小半径。
+ */
+function buildSizeModel(nodes: BubbleNode[], requested: SizeMetric): SizeModel {
+  const values = nodes.map((n) => SIZE_METRICS[requested].value(n)).filter((v): v is number => typeof v === "number" && v > 0);
+  const covered = values.length >= Math.ceil(nodes.length * SIZE_COVERAGE_MIN);
+
+  const metric: SizeMetric = covered ? requested : "score";
+  const config = SIZE_METRICS[metric];
+  const present = covered ? values : nodes.map((n) => config.value(n) ?? 0);
+
+  const minValue = present.length ? Math.min(...present) : 0;
+  const maxValue = present.length ? Math.max(...present) : 0;
+
+  const baseRadii = nodes.map((n) => calcRadius(config.value(n) ?? minValue, minValue, maxValue, config.scale));
+  const legend = present.length
+    ? legendValues(minValue, maxValue, config.scale).map((value) => ({ value, r: calcRadius(value, minValue, maxValue, config.scale) }))
+    : [];
+
+  return { metric, fallback: !covered, baseRadii, legend };
+}
+
+function calcRadiusScale(baseRadii: number[], width: number, height: number) {
+  const sumArea = baseRadii.reduce((acc, r) => acc + Math.PI * r * r, 0);
+  const canvasArea = width * height;
+
+  const targetCoverage = 0.28;
+  const scale = sumArea > 0 ? Math.sqrt((canvasArea * targetCoverage) / sumArea) : 1;
+  return clamp(scale, 0.85, 1.9);
+}
+
 async function fetchRecentBoostBubbles(signal: AbortSignal): Promise<RecentBoostBubblesResponse> {
   const url = `/api/v1/bubbles/recent?limit=100`;
   const res = await fetch(url, { signal, cache: "no-store" });
@@ -68,6 +191,17 @@ async function fetchRecentBoostBubbles(signal: AbortSignal): Promise<RecentBoost
   return (await res.json()) as RecentBoostBubblesResponse;
 }
 
+const STREAM_URL = `/api/v1/bubbles/stream?mode=recent&limit=100`;
+const POLL_INTERVAL_MS = 30_000;
+const RECONNECT_MAX_MS = 30_000;
+
+function applyBubbleDiff(nodes: BubbleNode[], diff: BubbleStreamDiffEvent) {
+  const removed = new Set(diff.removed);
+  const changed = new Map(diff.changed.map((n) => [n.id, n]));
+  const next = nodes.filter((n) => !removed.has(n.id)).map((n) => changed.get(n.id) ?? n);
+  return [...next, ...diff.added].sort((a, b) => a.rank - b.rank);
+}
+
 type Rgba = { r: number; g: number; b: number; a: number };
 
 function rgba(c: Rgba) {
@@ -150,7 +284,8 @@ function buildTargetMap(nodes: BubbleNode[], width: number, height: number, marg
     })
     .sort((a, b) => a.key - b.key);
 
-  const sortedNodes = [...nodes].sort((a, b) => (b.score === a.score ? a.id.localeCompare(b.id) : b.score - a.score));
+  // 热度高的放中间；旧数据没有热度时退回按 boost 分数
+  const sortedNodes = [...nodes].sort((a, b) => (b.hotness?.score ?? 0) - (a.hotness?.score ?? 0) || b.score - a.score || a.id.localeCompare(b.id));
 
   const map = new Map<string, { tx: number; ty: number }>();
   for (let i = 0; i < sortedNodes.length; i++) {
@@ -182,6 +317,29 @@ function formatMarketCap(n: number) {
   return `${Math.round(n)}`;
 }
 
+function formatPriceUsd(n: number) {
+  if (n >= 1) return n.toFixed(n >= 1000 ? 0 : 2);
+  if (n <= 0) return "0";
+
+  const digits = Math.min(12, Math.max(4, Math.ceil(-Math.log10(n)) + 3));
+  return n.toFixed(digits);
+}
+
+function formatPercent(n: number) {
+  const sign = n > 0 ? "+" : "";
+  return `${sign}${n.toFixed(Math.abs(n) < 10 ? 2 : 1)}%`;
+}
+
+function formatAge(ms: number) {
+  const minutes = Math.max(0, Math.floor(ms / 60_000));
+  if (minutes < 60) return `${minutes} 分钟`;
+
+  const hours = Math.floor(minutes / 60);
+  if (hours < 48) return `${hours} 小时`;
+
+  return `${Math.floor(hours / 24)} 天`;
+}
+
 function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number) {
   if (ctx.measureText(text).width <= maxWidth) return text;
 
@@ -232,18 +390,210 @@ function hslToRgb(h: number, s: number, l: number) {
   };
 }
 
-function pickColor(chainId: string, tokenAddress: string, stale: boolean): Rgba {
-  const a = stale ? 0.5 : 0.92;
-  const base = chainId.toLowerCase();
+const HOTNESS_LABELS: Record<HotnessComponent, string> = {
+  boost: "Boost",
+  boostVelocity: "Boost 增速",
+  volume: "成交额",
+  priceChange: "涨跌",
+  buyRatio: "买盘占比",
+  recency: "活跃度"
+};
+
+const SOURCE_LABELS: Record<BubbleSourceId, string> = {
+  top: "Top Boost",
+  latest: "Boost",
+  ads: "广告",
+  profiles: "Profile"
+};
+
+function hexToHue(hex: string) {
+  const v = Number.parseInt(hex.slice(1), 16);
+  const r = (v >> 16) & 0xff;
+  const g = (v >> 8) & 0xff;
+  const b = v & 0xff;
+  const max = Math.max(r, g, b);
+  const d = max - Math.min(r, g, b);
+  if (d === 0) return 0;
+  const h = max === r ? ((g - b) / d) % 6 : max === g ? (b - r) / d + 2 : (r - g) / d + 4;
+  return (h * 60 + 360) % 360;
+}
 
-  const baseHue = base === "solana" ? 270 : base === "ethereum" ? 220 : base === "base" ? 210 : base === "bsc" ? 48 : 0;
+/** 登记表里的链用其基准色的色相，未登记的链按 chainId 散列出一个色相 */
+function chainHue(chainId: string) {
+  const info = getChainInfo(chainId);
+  return info ? hexToHue(info.color) : hashToInt(chainId.toLowerCase()) % 360;
+}
+
+/** 图例只列出当前图上数量最多的几条链 */
+const CHAIN_LEGEND_MAX = 6;
+
+function pickChainColor(chainId: string, tokenAddress: string): Omit<Rgba, "a"> {
   const jitter = (hashToInt(tokenAddress) % 50) - 25;
-  const hue = (baseHue + jitter + 360) % 360;
+  const hue = (chainHue(chainId) + jitter + 360) % 360;
+  return hslToRgb(hue, 0.78, 0.55);
+}
+
+type ColorMode = "chain" | "priceChange" | "age" | "source";
+
+const COLOR_MODE_LABELS: Record<ColorMode, string> = {
+  chain: "链",
+  priceChange: "涨跌幅",
+  age: "代币年龄",
+  source: "来源"
+};
+
+const COLOR_MODE_ORDER: ColorMode[] = ["chain", "priceChange", "age", "source"];
+
+const MARKET_WINDOWS: MarketWindow[] = ["m5", "h1", "h6", "h24"];
+
+/** 各时间窗口下涨跌幅映射到满色的幅度（%） */
+const PRICE_CHANGE_RANGE: Record<MarketWindow, number> = {
+  m5: 10,
+  h1: 25,
+  h6: 50,
+  h24: 100
+};
+
+const NEUTRAL_RGB = { r: 110, g: 110, b: 118 };
+const DOWN_RGB = { r: 220, g: 38, b: 38 };
+const UP_RGB = { r: 22, g: 163, b: 74 };
+
+function mixRgb(a: Omit<Rgba, "a">, b: Omit<Rgba, "a">, t: number) {
+  return {
+    r: Math.round(a.r + (b.r - a.r) * t),
+    g: Math.round(a.g + (b.g - a.g) * t),
+    b: Math.round(a.b + (b.b - a.b) * t)
+  };
+}
+
+function pickPriceChangeColor(change: number | undefined, window: MarketWindow) {
+  if (typeof change !== "number") return NEUTRAL_RGB;
+  const t = clamp(change / PRICE_CHANGE_RANGE[window], -1, 1);
+  const k = Math.sqrt(Math.abs(t));
+  return t >= 0 ? mixRgb(NEUTRAL_RGB, UP_RGB, k) : mixRgb(NEUTRAL_RGB, DOWN_RGB, k);
+}
+
+const AGE_BUCKETS: { maxHours: number; label: string; rgb: Omit<Rgba, "a"> }[] = [
+  { maxHours: 1, label: "< 1h", rgb: { r: 250, g: 204, b: 21 } },
+  { maxHours: 6, label: "1h – 6h", rgb: { r: 249, g: 115, b: 22 } },
+  { maxHours: 24, label: "6h – 24h", rgb: { r: 236, g: 72, b: 153 } },
+  { maxHours: 24 * 7, label: "1d – 7d", rgb: { r: 139, g: 92, b: 246 } },
+  { maxHours: Number.POSITIVE_INFINITY, label: "> 7d", rgb: { r: 59, g: 130, b: 246 } }
+];
+
+function pickAgeColor(pairCreatedAt: string | undefined, nowMs: number) {
+  const createdAtMs = pairCreatedAt ? Date.parse(pairCreatedAt) : Number.NaN;
+  if (!Number.isFinite(createdAtMs)) return NEUTRAL_RGB;
+
+  const hours = Math.max(0, nowMs - createdAtMs) / 3_600_000;
+  const bucket = AGE_BUCKETS.find((b) => hours < b.maxHours);
+  return bucket?.rgb ?? NEUTRAL_RGB;
+}
+
+const SOURCE_RGB: Record<BubbleSourceId, Omit<Rgba, "a">> = {
+  top: { r: 245, g: 158, b: 11 },
+  latest: { r: 34, g: 197, b: 94 },
+  ads: { r: 236, g: 72, b: 153 },
+  profiles: { r: 20, g: 184, b: 166 }
+};
+
+function pickSourceColor(n: BubbleNode) {
+  const primary = n.provenance[0]?.source;
+  return primary ? SOURCE_RGB[primary] : NEUTRAL_RGB;
+}
+
+type ColorSettings = { mode: ColorMode; window: MarketWindow };
+
+function pickColor(n: BubbleNode, settings: ColorSettings, stale: boolean, nowMs: number): Rgba {
+  const a = stale ? 0.5 : 0.92;
+
+  const rgb =
+    settings.mode === "priceChange"
+      ? pickPriceChangeColor(n.metrics?.priceChange[settings.window], settings.window)
+      : settings.mode === "age"
+        ? pickAgeColor(n.pairCreatedAt, nowMs)
+        : settings.mode === "source"
+          ? pickSourceColor(n)
+          : pickChainColor(n.chainId, n.tokenAddress);
 
-  const rgb = hslToRgb(hue, 0.78, 0.55);
   return { ...rgb, a };
 }
 
+function cssRgb(c: Omit<Rgba, "a">) {
+  return `rgb(${c.r}, ${c.g}, ${c.b})`;
+}
+
+function ColorLegend({ settings, chainIds }: { settings: ColorSettings; chainIds: string[] }) {
+  const range = PRICE_CHANGE_RANGE[settings.window];
+
+  const items: { label: string; color: string }[] =
+    settings.mode === "chain"
+      ? chainIds.map((id) => ({ label: chainDisplayName(id), color: cssRgb(hslToRgb(chainHue(id), 0.78, 0.55)) }))
+      : settings.mode === "age"
+        ? [...AGE_BUCKETS.map((b) => ({ label: b.label, color: cssRgb(b.rgb) })), { label: "未知", color: cssRgb(NEUTRAL_RGB) }]
+        : settings.mode === "source"
+          ? (Object.keys(SOURCE_RGB) as BubbleSourceId[]).map((source) => ({ label: SOURCE_LABELS[source], color: cssRgb(SOURCE_RGB[source]) }))
+          : [];
+
+  return (
+    <div className="pointer-events-none absolute bottom-3 right-3 rounded-lg border border-[color:var(--color-panel-border)] bg-black/60 p-2 text-[11px] text-white backdrop-blur">
+      <div className="mb-1 text-[color:var(--color-muted)]">
+        颜色：{COLOR_MODE_LABELS[settings.mode]}
+        {settings.mode === "priceChange" ? `（${settings.window}）` : null}
+      </div>
+      {settings.mode === "priceChange" ? (
+        <div className="w-[180px]">
+          <div className="h-2 rounded" style={{ background: `linear-gradient(to right, ${cssRgb(DOWN_RGB)}, ${cssRgb(NEUTRAL_RGB)}, ${cssRgb(UP_RGB)})` }} />
+          <div className="mt-1 flex justify-between text-[color:var(--color-muted)]">
+            <span>≤ -{range}%</span>
+            <span>0</span>
+            <span>≥ +{range}%</span>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-col gap-0.5">
+          {items.map((item) => (
+            <div key={item.label} className="flex items-center gap-2">
+              <span className="inline-block h-2.5 w-2.5 rounded-full" style={{ background: item.color }} />
+              <span>{item.label}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const LEGEND_MAX_R_PX = 36;
+
+function SizeLegend({ title, note, items }: { title: string; note?: string; items: { label: string; r: number }[] }) {
+  const maxR = Math.max(...items.map((i) => i.r), 1);
+  const k = LEGEND_MAX_R_PX / maxR;
+  const box = LEGEND_MAX_R_PX * 2 + 2;
+
+  return (
+    <div className="pointer-events-none absolute bottom-3 left-3 rounded-lg border border-[color:var(--color-panel-border)] bg-black/60 p-2 text-[11px] text-white backdrop-blur">
+      <div className="mb-1 text-[color:var(--color-muted)]">气泡大小：{title}</div>
+      {note ? <div className="mb-1 text-[10px] text-amber-300/80">{note}</div> : null}
+      <div className="flex items-end gap-3">
+        <svg width={box} height={box} className="shrink-0">
+          {items.map((item, i) => (
+            <circle key={i} cx={box / 2} cy={box - 1 - item.r * k} r={item.r * k} fill="none" stroke="rgba(255, 255, 255, 0.45)" strokeWidth={1} />
+          ))}
+        </svg>
+        <div className="flex flex-col gap-0.5">
+          {items.map((item, i) => (
+            <div key={i} className="flex items-center justify-between gap-2">
+              <span className="font-semibold">{item.label}</span>
+              <span className="text-[color:var(--color-muted)]">r≈{Math.round(item.r)}px</span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export function BubbleMap() {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
@@ -264,9 +614,36 @@ export function BubbleMap() {
   });
   const hoveredIdRef = useRef<string | null>(null);
   const [hovered, setHovered] = useState<SimNode | null>(null);
+  const [hoveredAtMs, setHoveredAtMs] = useState(0);
+  const [sizeMetric, setSizeMetric] = useState<SizeMetric>("marketCap");
+  const [colorSettings, setColorSettings] = useState<ColorSettings>({ mode: "chain", window: "h24" });
+  const colorSettingsRef = useRef<ColorSettings>(colorSettings);
+
+  const sizeModel = useMemo(() => buildSizeModel(rawNodes, sizeMetric), [rawNodes, sizeMetric]);
+  const legendChainIds = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const n of rawNodes) {
+      const id = n.chainId.toLowerCase();
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+    }
+    return Array.from(counts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, CHAIN_LEGEND_MAX)
+      .map(([id]) => id);
+  }, [rawNodes]);
+  const legendScale = calcRadiusScale(sizeModel.baseRadii, size.width, size.height);
+
+  useEffect(() => {
+    colorSettingsRef.current = colorSettings;
+  }, [colorSettings]);
 
   useEffect(() => {
     const controller = new AbortController();
+    let source: EventSource | null = null;
+    let updatedAt: string | null = null;
+    let pollId: number | null = null;
+    let reconnectId: number | null = null;
+    let reconnectDelayMs = 1000;
 
     async function runOnce() {
       try {
@@ -278,14 +655,76 @@ export function BubbleMap() {
       }
     }
 
-    void runOnce();
-    const intervalId = window.setInterval(() => {
+    // 推送断开期间退回轮询，连上后停止
+    function startPolling() {
+      if (pollId !== null) return;
       void runOnce();
-    }, 30_000);
+      pollId = window.setInterval(() => {
+        void runOnce();
+      }, POLL_INTERVAL_MS);
+    }
+
+    function stopPolling() {
+      if (pollId === null) return;
+      window.clearInterval(pollId);
+      pollId = null;
+    }
+
+    function scheduleReconnect() {
+      if (reconnectId !== null) return;
+      reconnectId = window.setTimeout(() => {
+        reconnectId = null;
+        connect();
+      }, reconnectDelayMs);
+      reconnectDelayMs = Math.min(reconnectDelayMs * 2, RECONNECT_MAX_MS);
+    }
+
+    function connect() {
+      source?.close();
+      updatedAt = null;
+      const es = new EventSource(STREAM_URL);
+      source = es;
+
+      es.addEventListener("snapshot", (ev) => {
+        const data = JSON.parse((ev as MessageEvent<string>).data) as BubbleStreamSnapshotEvent;
+        updatedAt = data.updatedAt;
+        reconnectDelayMs = 1000;
+        stopPolling();
+        setRawNodes(data.data);
+        setStale(data.stale);
+      });
+
+      es.addEventListener("diff", (ev) => {
+        const diff = JSON.parse((ev as MessageEvent<string>).data) as BubbleStreamDiffEvent;
+        if (diff.since !== updatedAt) {
+          // 错过了中间的增量，重连拿完整快照
+          connect();
+          return;
+        }
+        updatedAt = diff.updatedAt;
+        setRawNodes((prev) => applyBubbleDiff(prev, diff));
+        setStale(false);
+      });
+
+      es.onerror = () => {
+        startPolling();
+        if (es.readyState === EventSource.CLOSED) {
+          scheduleReconnect();
+        }
+      };
+    }
+
+    if (typeof EventSource === "undefined") {
+      startPolling();
+    } else {
+      connect();
+    }
 
     return () => {
       controller.abort();
-      window.clearInterval(intervalId);
+      source?.close();
+      stopPolling();
+      if (reconnectId !== null) window.clearTimeout(reconnectId);
     };
   }, []);
 
@@ -348,28 +787,11 @@ export function BubbleMap() {
       cache.set(n.iconUrl, img);
     }
 
-    const baseMinR = 18;
-    const baseMaxR = 70;
-
-    const mcValues = rawNodes.map((n) => n.marketCap).filter((v): v is number => typeof v === "number" && v > 0);
-    const hasMarketCap = mcValues.length >= Math.ceil(rawNodes.length * 0.6);
-    const minMarketCap = mcValues.length ? Math.min(...mcValues) : 0;
-    const maxMarketCap = mcValues.length ? Math.max(...mcValues) : 0;
+    const baseRadii = sizeModel.baseRadii;
+    const sizeConfig = SIZE_METRICS[sizeModel.metric];
+    const radiusScale = calcRadiusScale(baseRadii, width, height);
 
-    const baseRadii = rawNodes.map((n) => {
-      return hasMarketCap
-        ? calcRadiusFromMarketCap(n.marketCap ?? minMarketCap, minMarketCap, maxMarketCap, baseMinR, baseMaxR)
-        : calcRadiusFallback(n.score, baseMinR, baseMaxR);
-    });
-
-    const sumArea = baseRadii.reduce((acc, r) => acc + Math.PI * r * r, 0);
-    const canvasArea = width * height;
-
-    const targetCoverage = 0.28;
-    const scale = sumArea > 0 ? Math.sqrt((canvasArea * targetCoverage) / sumArea) : 1;
-    const radiusScale = clamp(scale, 0.85, 1.9);
-
-    const maxR = baseMaxR * radiusScale;
+    const maxR = BASE_MAX_R * radiusScale;
     const margin = maxR + 24;
 
     const targetMap = buildTargetMap(rawNodes, width, height, margin);
@@ -401,12 +823,17 @@ export function BubbleMap() {
         existing.name = n.name;
         existing.marketCap = n.marketCap;
         existing.pairAddress = n.pairAddress;
+        existing.pairCreatedAt = n.pairCreatedAt;
+        existing.metrics = n.metrics;
         existing.score = n.score;
+        existing.boostVelocity = n.boostVelocity;
+        existing.hotness = n.hotness;
         existing.url = n.url;
         existing.description = n.description;
         existing.headerImageUrl = n.headerImageUrl;
         existing.iconUrl = n.iconUrl;
         existing.links = n.links;
+        existing.provenance = n.provenance;
         existing.r = r;
         existing.tx = tx;
         existing.ty = ty;
@@ -599,10 +1026,12 @@ export function BubbleMap() {
       ctx.translate(-cx, -cy);
 
       const hoveredId = hoveredIdRef.current;
+      const colorSettings = colorSettingsRef.current;
+      const wallNowMs = Date.now();
 
       for (const n of nodes) {
         const isHover = hoveredId === n.id;
-        const base = pickColor(n.chainId, n.tokenAddress, stale);
+        const base = pickColor(n, colorSettings, stale, wallNowMs);
         const drawR = n.r * clamp(n.s, 0, 1.15);
         const drawAlpha = clamp(n.s, 0, 1);
 
@@ -666,8 +1095,8 @@ export function BubbleMap() {
         ctx.fillStyle = "rgba(255, 255, 255, 0.95)";
         ctx.fillText(nameText, n.x, nameTextY);
 
-        const mc = typeof n.marketCap === "number" ? n.marketCap : 0;
-        const mcText = mc > 0 ? `$${formatMarketCap(mc)}` : "—";
+        const sizeValue = sizeConfig.value(n) ?? 0;
+        const mcText = sizeValue > 0 ? sizeConfig.format(sizeValue) : "—";
         const mcFontSize = Math.round(Math.max(10, Math.min(16, drawR / 4)));
         const mcY = n.y + drawR * 0.35;
 
@@ -687,7 +1116,7 @@ export function BubbleMap() {
     return () => {
       window.cancelAnimationFrame(rafId);
     };
-  }, [rawNodes, stale, size.height, size.width]);
+  }, [rawNodes, sizeModel, stale, size.height, size.width]);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -724,6 +1153,7 @@ export function BubbleMap() {
       const nextId = best?.id ?? null;
       hoveredIdRef.current = nextId;
       setHovered(best);
+      setHoveredAtMs(Date.now());
       canvas.style.cursor = best ? "pointer" : "default";
     };
 
@@ -752,6 +1182,8 @@ export function BubbleMap() {
     };
   }, []);
 
+  const hoveredChain = hovered ? getChainInfo(hovered.chainId) : undefined;
+
   return (
     <div
       ref={containerRef}
@@ -759,11 +1191,60 @@ export function BubbleMap() {
     >
       <canvas ref={canvasRef} className="absolute left-0 top-0" />
 
+      <div className="absolute right-3 top-3 flex items-center gap-2 rounded-lg border border-[color:var(--color-panel-border)] bg-black/60 px-2 py-1 text-xs text-white backdrop-blur">
+        <span className="text-[color:var(--color-muted)]">大小</span>
+        <select className="bg-transparent font-semibold outline-none" value={sizeMetric} onChange={(e) => setSizeMetric(e.target.value as SizeMetric)}>
+          {SIZE_METRIC_ORDER.map((m) => (
+            <option key={m} value={m} className="bg-neutral-900">
+              {SIZE_METRICS[m].label}
+            </option>
+          ))}
+        </select>
+        <span className="ml-2 text-[color:var(--color-muted)]">颜色</span>
+        <select
+          className="bg-transparent font-semibold outline-none"
+          value={colorSettings.mode}
+          onChange={(e) => setColorSettings((prev) => ({ ...prev, mode: e.target.value as ColorMode }))}
+        >
+          {COLOR_MODE_ORDER.map((m) => (
+            <option key={m} value={m} className="bg-neutral-900">
+              {COLOR_MODE_LABELS[m]}
+            </option>
+          ))}
+        </select>
+        {colorSettings.mode === "priceChange" ? (
+          <select
+            className="bg-transparent font-semibold outline-none"
+            value={colorSettings.window}
+            onChange={(e) => setColorSettings((prev) => ({ ...prev, window: e.target.value as MarketWindow }))}
+          >
+            {MARKET_WINDOWS.map((w) => (
+              <option key={w} value={w} className="bg-neutral-900">
+                {w}
+              </option>
+            ))}
+          </select>
+        ) : null}
+      </div>
+
+      <ColorLegend settings={colorSettings} chainIds={legendChainIds} />
+
+      {sizeModel.legend.length > 0 ? (
+        <SizeLegend
+          title={SIZE_METRICS[sizeModel.metric].label}
+          note={sizeModel.fallback ? `${SIZE_METRICS[sizeMetric].label}数据不足，按 Boost 分数` : undefined}
+          items={sizeModel.legend.map((l) => ({ label: SIZE_METRICS[sizeModel.metric].format(l.value), r: l.r * legendScale }))}
+        />
+      ) : null}
+
       {hovered ? (
         <div className="pointer-events-none absolute left-3 top-3 w-[340px] rounded-xl border border-[color:var(--color-panel-border)] bg-black/60 p-3 text-sm text-white shadow-lg backdrop-blur">
           <div className="flex items-center justify-between">
             <div className="font-semibold">{hovered.symbol ?? hovered.label}</div>
-            <div className="text-xs text-[color:var(--color-muted)]">{hovered.chainId}</div>
+            <div className="flex items-center gap-1 text-xs text-[color:var(--color-muted)]">
+              {hoveredChain ? <NextImage src={hoveredChain.iconUrl} alt="" width={14} height={14} unoptimized className="rounded-full" /> : null}
+              {chainDisplayName(hovered.chainId)}
+            </div>
           </div>
           <div className="mt-1 break-all text-xs text-[color:var(--color-muted)]">{hovered.name ?? hovered.tokenAddress}</div>
           <div className="mt-1 break-all text-[11px] text-[color:var(--color-muted)]">{hovered.tokenAddress}</div>
@@ -771,6 +1252,72 @@ export function BubbleMap() {
             <div className="text-[color:var(--color-muted)]">市值</div>
             <div className="font-semibold">{typeof hovered.marketCap === "number" ? `$${formatMarketCap(hovered.marketCap)}` : "--"}</div>
           </div>
+          {hovered.pairCreatedAt ? (
+            <div className="mt-1 flex items-center justify-between text-xs">
+              <div className="text-[color:var(--color-muted)]">创建于</div>
+              <div className="font-semibold">{formatAge(hoveredAtMs - Date.parse(hovered.pairCreatedAt))}前</div>
+            </div>
+          ) : null}
+          {hovered.metrics ? (
+            <>
+              <div className="mt-1 flex items-center justify-between text-xs">
+                <div className="text-[color:var(--color-muted)]">价格</div>
+                <div className="font-semibold">
+                  {typeof hovered.metrics.priceUsd === "number" ? `$${formatPriceUsd(hovered.metrics.priceUsd)}` : "--"}
+                  {typeof hovered.metrics.priceChange.h24 === "number" ? (
+                    <span className={hovered.metrics.priceChange.h24 >= 0 ? "ml-2 text-emerald-400" : "ml-2 text-rose-400"}>
+                      {formatPercent(hovered.metrics.priceChange.h24)}
+                    </span>
+                  ) : null}
+                </div>
+              </div>
+              <div className="mt-1 flex items-center justify-between text-xs">
+                <div className="text-[color:var(--color-muted)]">24h 成交额</div>
+                <div className="font-semibold">{typeof hovered.metrics.volume.h24 === "number" ? `$${formatMarketCap(hovered.metrics.volume.h24)}` : "--"}</div>
+              </div>
+              <div className="mt-1 flex items-center justify-between text-xs">
+                <div className="text-[color:var(--color-muted)]">流动性</div>
+                <div className="font-semibold">
+                  {typeof hovered.metrics.liquidityUsd === "number" ? `$${formatMarketCap(hovered.metrics.liquidityUsd)}` : "--"}
+                </div>
+              </div>
+              {hovered.metrics.txns.h24 ? (
+                <div className="mt-1 flex items-center justify-between text-xs">
+                  <div className="text-[color:var(--color-muted)]">24h 买 / 卖</div>
+                  <div className="font-semibold">
+                    {hovered.metrics.txns.h24.buys} / {hovered.metrics.txns.h24.sells}
+                  </div>
+                </div>
+              ) : null}
+            </>
+          ) : null}
+          {hovered.hotness ? (
+            <div className="mt-2 text-xs">
+              <div className="flex items-center justify-between">
+                <div className="text-[color:var(--color-muted)]">热度</div>
+                <div className="font-semibold">{hovered.hotness.score.toFixed(1)}</div>
+              </div>
+              <div className="mt-1 text-[color:var(--color-muted)]">
+                {(Object.entries(hovered.hotness.components) as [HotnessComponent, number][])
+                  .filter(([, points]) => points > 0)
+                  .sort((a, b) => b[1] - a[1])
+                  .map(([c, points]) => `${HOTNESS_LABELS[c]} ${points.toFixed(1)}`)
+                  .join(" · ")}
+              </div>
+            </div>
+          ) : null}
+          {hovered.boostVelocity ? (
+            <div className="mt-2 flex items-center justify-between text-xs">
+              <div className="text-[color:var(--color-muted)]">Boost 5m / 1h / 6h</div>
+              <div className="font-semibold">{(["m5", "h1", "h6"] as const).map((w) => `+${hovered.boostVelocity?.[w] ?? 0}`).join(" / ")}</div>
+            </div>
+          ) : null}
+          {hovered.provenance.length > 0 ? (
+            <div className="mt-2 flex items-center justify-between text-xs">
+              <div className="text-[color:var(--color-muted)]">来源</div>
+              <div className="font-semibold">{hovered.provenance.map((p) => SOURCE_LABELS[p.source]).join(" · ")}</div>
+            </div>
+          ) : null}
           {hovered.description ? <div className="mt-2 line-clamp-3 text-xs text-[color:var(--color-muted)]">{hovered.description}</div> : null}
         </div>
       ) : null}
@@ -16,6 +16,56 @@ export type DexscreenerTopBoost = {
   totalAmount: number;
 };
 
+export type BubbleSourceId = "top" | "latest" | "ads" | "profiles";
+
+export type BubbleProvenance = {
+  source: BubbleSourceId;
+  firstSeenAt: string;
+  lastSeenAt: string;
+};
+
+export type MarketWindow = "m5" | "h1" | "h6" | "h24";
+
+export type TxnCounts = {
+  buys: number;
+  sells: number;
+};
+
+export type MarketMetrics = {
+  priceUsd?: number;
+  liquidityUsd?: number;
+  priceChange: Partial<Record<MarketWindow, number>>;
+  volume: Partial<Record<MarketWindow, number>>;
+  txns: Partial<Record<MarketWindow, TxnCounts>>;
+};
+
+export type BoostVelocityWindow = "m5" | "h1" | "h6";
+
+export type BoostVelocity = Partial<Record<BoostVelocityWindow, number>>;
+
+export type HotnessComponent =
+  "boost" | "boostVelocity" | "volume" | "priceChange" | "buyRatio" | "recency";
+
+export type BubbleHotness = {
+  score: number;
+  components: Record<HotnessComponent, number>;
+};
+
+/** 元数据来源：boost 链接指向的交易对，或 tokens 接口中流动性最高的交易对 */
+export type EnrichmentSource = "pair" | "token";
+
+/**
+ * fresh：行情在缓存有效期内；stale：行情已过期（上游失败或 token 已不在本次
+ * 列表中），沿用旧数据；missing：还没有拿到该 token 的交易对数据。
+ */
+export type EnrichmentStatus = "fresh" | "stale" | "missing";
+
+export type BubbleEnrichment = {
+  status: EnrichmentStatus;
+  source?: EnrichmentSource;
+  updatedAt?: string;
+};
+
 export type BubbleNode = {
   id: string;
   rank: number;
@@ -26,18 +76,46 @@ export type BubbleNode = {
   name?: string;
   marketCap?: number;
   pairAddress?: string;
+  pairCreatedAt?: string;
+  metrics?: MarketMetrics;
   score: number;
+  boostVelocity?: BoostVelocity;
+  hotness?: BubbleHotness;
+  enrichment: BubbleEnrichment;
   url: string;
   description?: string;
   iconUrl?: string;
   headerImageUrl?: string;
   links: DexscreenerBoostLink[];
+  provenance: BubbleProvenance[];
+};
+
+export type BubbleSortId =
+  | "score"
+  | "marketCap"
+  | "recency"
+  | "liquidity"
+  | "volume"
+  | "hotness"
+  | "boostVelocity";
+
+export type BubbleFilters = {
+  chainId?: string[];
+  minMarketCap?: number;
+  maxMarketCap?: number;
+  minLiquidity?: number;
+  maxAgeMinutes?: number;
+  hasSocials?: boolean;
+  sources?: BubbleSourceId[];
 };
 
 export type TopBoostBubblesResponse = {
   source: "dexscreener";
   endpoint: "/token-boosts/top/v1";
   limit: number;
+  filters: BubbleFilters;
+  /** 未指定时按缓存原有顺序返回 */
+  sort?: BubbleSortId;
   updatedAt: string;
   stale: boolean;
   data: BubbleNode[];
@@ -48,7 +126,586 @@ export type RecentBoostBubblesResponse = {
   endpoint: "/token-boosts/top/v1";
   mode: "recent";
   limit: number;
+  filters: BubbleFilters;
+  sort?: BubbleSortId;
   updatedAt: string;
   stale: boolean;
   data: BubbleNode[];
 };
+
+export type BubbleMode = "top" | "recent";
+
+export type BubbleSnapshotToken = {
+  id: string;
+  chainId: string;
+  tokenAddress: string;
+  symbol?: string;
+  name?: string;
+  rank: number;
+  score: number;
+  marketCap?: number;
+  priceUsd?: number;
+  liquidityUsd?: number;
+  volume24h?: number;
+  priceChange24h?: number;
+};
+
+export type BubbleHistorySnapshot = {
+  at: string;
+  tokens: BubbleSnapshotToken[];
+};
+
+export type BubbleHistoryResponse = {
+  mode: BubbleMode;
+  from: string;
+  to: string;
+  stepMs: number;
+  data: BubbleHistorySnapshot[];
+};
+
+export type TokenHistoryPoint = Omit<
+  BubbleSnapshotToken,
+  "id" | "chainId" | "tokenAddress" | "symbol" | "name"
+> & {
+  at: string;
+  mode: BubbleMode;
+};
+
+export type TokenHistoryResponse = {
+  chainId: string;
+  tokenAddress: string;
+  from: string;
+  to: string;
+  data: TokenHistoryPoint[];
+};
+
+export type TokenPoolToken = {
+  address: string;
+  symbol?: string;
+  name?: string;
+};
+
+export type TokenPool = {
+  chainId: string;
+  dexId?: string;
+  pairAddress: string;
+  url?: string;
+  explorerUrl?: string;
+  baseToken: TokenPoolToken;
+  quoteToken?: TokenPoolToken;
+  marketCap?: number;
+  pairCreatedAt?: string;
+  metrics: MarketMetrics;
+};
+
+export type TokenDetailResponse = {
+  chainId: string;
+  tokenAddress: string;
+  /** 未登记的链为 null */
+  chain: ChainInfo | null;
+  explorerUrl?: string;
+  node: BubbleNode | null;
+  ranks: Partial<Record<BubbleMode, number>>;
+  pools: TokenPool[] | null;
+  provenance: BubbleProvenance[];
+  links: DexscreenerBoostLink[];
+  firstSeenAt?: string;
+  lastSeenAt?: string;
+};
+
+export type TokenSearchField =
+  "symbol" | "name" | "tokenAddress" | "pairAddress" | "description";
+
+export type TokenSearchHit = {
+  chainId: string;
+  tokenAddress: string;
+  symbol?: string;
+  name?: string;
+  pairAddress?: string;
+  matchedOn: TokenSearchField;
+  exact: boolean;
+  score: number;
+  ranks: Partial<Record<BubbleMode, number>>;
+  lastSeenAt?: string;
+};
+
+export type TokenSearchResponse = {
+  q: string;
+  limit: number;
+  data: TokenSearchHit[];
+};
+
+export type WatchlistToken = {
+  chainId: string;
+  tokenAddress: string;
+  addedAt: string;
+};
+
+export type Watchlist = {
+  id: string;
+  name: string;
+  tokens: WatchlistToken[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WatchlistSummary = Omit<Watchlist, "tokens"> & {
+  tokenCount: number;
+};
+
+export type WatchlistBubblesResponse = {
+  watchlist: WatchlistSummary;
+  updatedAt: string;
+  data: BubbleNode[];
+};
+
+export type AlertTrigger =
+  | { kind: "match" }
+  | { kind: "newToken" }
+  | { kind: "enteredTop"; rank: number }
+  | { kind: "scoreJump"; minDelta: number };
+
+export type AlertConditions = BubbleFilters & {
+  linkTypes?: string[];
+};
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  modes: BubbleMode[];
+  trigger: AlertTrigger;
+  conditions: AlertConditions;
+  cooldownMinutes: number;
+  sinks: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AlertEvent = {
+  id: string;
+  ruleId: string;
+  ruleName: string;
+  mode: BubbleMode;
+  trigger: AlertTrigger["kind"];
+  firedAt: string;
+  message: string;
+  previous?: { rank: number; score: number };
+  node: BubbleNode;
+};
+
+export type AlertEventsResponse = {
+  data: AlertEvent[];
+};
+
+export type WebhookEventType =
+  "token.entered" | "token.left" | "token.rankChanged" | "alert.fired";
+
+export type WebhookTokenEventData = {
+  mode: BubbleMode;
+  node: BubbleNode;
+  previousRank?: number;
+};
+
+export type WebhookEvent = {
+  id: string;
+  createdAt: string;
+} & (
+  | {
+      type: "token.entered" | "token.left" | "token.rankChanged";
+      data: WebhookTokenEventData;
+    }
+  | { type: "alert.fired"; data: AlertEvent }
+);
+
+export type Webhook = {
+  id: string;
+  url: string;
+  events: WebhookEventType[];
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WebhookDeliveryOutcome = "success" | "retry" | "failed";
+
+export type WebhookDelivery = {
+  id: string;
+  deliveryId: string;
+  webhookId: string;
+  eventId: string;
+  type: WebhookEventType;
+  attempt: number;
+  at: string;
+  durationMs: number;
+  status?: number;
+  error?: string;
+  outcome: WebhookDeliveryOutcome;
+};
+
+export type WebhookDeadLetter = {
+  id: string;
+  webhookId: string;
+  event: WebhookEvent;
+  attempts: number;
+  lastError: string;
+  failedAt: string;
+};
+
+export type BubbleNodesDiff = {
+  added: BubbleNode[];
+  removed: string[];
+  changed: BubbleNode[];
+};
+
+export type BubbleDeltaResponse = BubbleNodesDiff & {
+  source: "dexscreener";
+  mode: BubbleMode;
+  limit: number;
+  filters: BubbleFilters;
+  sort?: BubbleSortId;
+  since: string;
+  updatedAt: string;
+  stale: boolean;
+};
+
+export type BubbleStreamSnapshotEvent = {
+  mode: BubbleMode;
+  updatedAt: string;
+  stale: boolean;
+  data: BubbleNode[];
+};
+
+export type BubbleStreamDiffEvent = BubbleNodesDiff & {
+  mode: BubbleMode;
+  since: string;
+  updatedAt: string;
+};
+
+/**
+ * 链登记表，API 与 Web 共用。Dexscreener 新增的链只需要在 CHAINS 里加一项：
+ * 地址格式决定 API 如何校验 / 比较地址，其余字段用于展示。
+ */
+export type ChainAddressFormat =
+  "evm" | "solana" | "tron" | "ton" | "move" | "other";
+
+export type ChainNativeCurrency = {
+  symbol: string;
+  name: string;
+  decimals: number;
+};
+
+export type ChainInfo = {
+  /** Dexscreener 的 chainId */
+  id: string;
+  name: string;
+  /** 气泡按链着色时的基准色 */
+  color: string;
+  iconUrl: string;
+  addressFormat: ChainAddressFormat;
+  nativeCurrency: ChainNativeCurrency;
+  /** 区块浏览器链接模板，`{address}` 替换为 token / 交易对地址 */
+  explorer: {
+    name: string;
+    tokenUrl: string;
+    pairUrl: string;
+  };
+};
+
+const ETH: ChainNativeCurrency = { symbol: "ETH", name: "Ether", decimals: 18 };
+
+function chain(
+  info: Omit<ChainInfo, "iconUrl" | "explorer"> & {
+    explorer: { name: string; tokenUrl: string; pairUrl?: string };
+  },
+): ChainInfo {
+  return {
+    ...info,
+    iconUrl: `https://dd.dexscreener.com/ds-data/chains/${info.id}.png`,
+    explorer: {
+      ...info.explorer,
+      pairUrl: info.explorer.pairUrl ?? info.explorer.tokenUrl,
+    },
+  };
+}
+
+/** 常见的 Etherscan 系浏览器：/token/ 与 /address/ */
+function scan(name: string, origin: string) {
+  return {
+    name,
+    tokenUrl: `${origin}/token/{address}`,
+    pairUrl: `${origin}/address/{address}`,
+  };
+}
+
+export const CHAINS: ChainInfo[] = [
+  chain({
+    id: "solana",
+    name: "Solana",
+    color: "#9945ff",
+    addressFormat: "solana",
+    nativeCurrency: { symbol: "SOL", name: "Solana", decimals: 9 },
+    explorer: {
+      name: "Solscan",
+      tokenUrl: "https://solscan.io/token/{address}",
+      pairUrl: "https://solscan.io/account/{address}",
+    },
+  }),
+  chain({
+    id: "ethereum",
+    name: "Ethereum",
+    color: "#627eea",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("Etherscan", "https://etherscan.io"),
+  }),
+  chain({
+    id: "base",
+    name: "Base",
+    color: "#0052ff",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("BaseScan", "https://basescan.org"),
+  }),
+  chain({
+    id: "bsc",
+    name: "BNB Chain",
+    color: "#f0b90b",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "BNB", name: "BNB", decimals: 18 },
+    explorer: scan("BscScan", "https://bscscan.com"),
+  }),
+  chain({
+    id: "arbitrum",
+    name: "Arbitrum",
+    color: "#28a0f0",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("Arbiscan", "https://arbiscan.io"),
+  }),
+  chain({
+    id: "polygon",
+    name: "Polygon",
+    color: "#8247e5",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "POL", name: "Polygon", decimals: 18 },
+    explorer: scan("PolygonScan", "https://polygonscan.com"),
+  }),
+  chain({
+    id: "avalanche",
+    name: "Avalanche",
+    color: "#e84142",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "AVAX", name: "Avalanche", decimals: 18 },
+    explorer: scan("Snowtrace", "https://snowtrace.io"),
+  }),
+  chain({
+    id: "optimism",
+    name: "Optimism",
+    color: "#ff0420",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("Optimistic Etherscan", "https://optimistic.etherscan.io"),
+  }),
+  chain({
+    id: "blast",
+    name: "Blast",
+    color: "#fcfc03",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("Blastscan", "https://blastscan.io"),
+  }),
+  chain({
+    id: "linea",
+    name: "Linea",
+    color: "#61dfff",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("LineaScan", "https://lineascan.build"),
+  }),
+  chain({
+    id: "scroll",
+    name: "Scroll",
+    color: "#ffdbb0",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("Scrollscan", "https://scrollscan.com"),
+  }),
+  chain({
+    id: "zksync",
+    name: "zkSync",
+    color: "#8c8dfc",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("zkSync Era Explorer", "https://era.zksync.network"),
+  }),
+  chain({
+    id: "mantle",
+    name: "Mantle",
+    color: "#65b3ae",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "MNT", name: "Mantle", decimals: 18 },
+    explorer: scan("MantleScan", "https://mantlescan.xyz"),
+  }),
+  chain({
+    id: "cronos",
+    name: "Cronos",
+    color: "#1199fa",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "CRO", name: "Cronos", decimals: 18 },
+    explorer: scan("Cronoscan", "https://cronoscan.com"),
+  }),
+  chain({
+    id: "fantom",
+    name: "Fantom",
+    color: "#1969ff",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "FTM", name: "Fantom", decimals: 18 },
+    explorer: scan("FTMScan", "https://ftmscan.com"),
+  }),
+  chain({
+    id: "sonic",
+    name: "Sonic",
+    color: "#fe9a4c",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "S", name: "Sonic", decimals: 18 },
+    explorer: scan("SonicScan", "https://sonicscan.org"),
+  }),
+  chain({
+    id: "pulsechain",
+    name: "PulseChain",
+    color: "#e51bff",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "PLS", name: "Pulse", decimals: 18 },
+    explorer: scan("PulseScan", "https://scan.pulsechain.com"),
+  }),
+  chain({
+    id: "abstract",
+    name: "Abstract",
+    color: "#00de73",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("Abscan", "https://abscan.org"),
+  }),
+  chain({
+    id: "berachain",
+    name: "Berachain",
+    color: "#814625",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "BERA", name: "Bera", decimals: 18 },
+    explorer: scan("Berascan", "https://berascan.com"),
+  }),
+  chain({
+    id: "unichain",
+    name: "Unichain",
+    color: "#f50db4",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("Uniscan", "https://uniscan.xyz"),
+  }),
+  chain({
+    id: "hyperevm",
+    name: "HyperEVM",
+    color: "#97fce4",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "HYPE", name: "Hyperliquid", decimals: 18 },
+    explorer: scan("HyperEVMScan", "https://hyperevmscan.io"),
+  }),
+  chain({
+    id: "apechain",
+    name: "ApeChain",
+    color: "#0054fa",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "APE", name: "ApeCoin", decimals: 18 },
+    explorer: scan("ApeScan", "https://apescan.io"),
+  }),
+  chain({
+    id: "worldchain",
+    name: "World Chain",
+    color: "#a0a0a0",
+    addressFormat: "evm",
+    nativeCurrency: ETH,
+    explorer: scan("Worldscan", "https://worldscan.org"),
+  }),
+  chain({
+    id: "celo",
+    name: "Celo",
+    color: "#fcff52",
+    addressFormat: "evm",
+    nativeCurrency: { symbol: "CELO", name: "Celo", decimals: 18 },
+    explorer: scan("Celoscan", "https://celoscan.io"),
+  }),
+  chain({
+    id: "tron",
+    name: "Tron",
+    color: "#ff060a",
+    addressFormat: "tron",
+    nativeCurrency: { symbol: "TRX", name: "Tron", decimals: 6 },
+    explorer: {
+      name: "Tronscan",
+      tokenUrl: "https://tronscan.org/#/token20/{address}",
+      pairUrl: "https://tronscan.org/#/contract/{address}",
+    },
+  }),
+  chain({
+    id: "ton",
+    name: "TON",
+    color: "#0098ea",
+    addressFormat: "ton",
+    nativeCurrency: { symbol: "TON", name: "Toncoin", decimals: 9 },
+    explorer: {
+      name: "Tonviewer",
+      tokenUrl: "https://tonviewer.com/{address}",
+    },
+  }),
+  chain({
+    id: "sui",
+    name: "Sui",
+    color: "#4da2ff",
+    addressFormat: "move",
+    nativeCurrency: { symbol: "SUI", name: "Sui", decimals: 9 },
+    explorer: {
+      name: "Suiscan",
+      tokenUrl: "https://suiscan.xyz/mainnet/coin/{address}",
+      pairUrl: "https://suiscan.xyz/mainnet/object/{address}",
+    },
+  }),
+  chain({
+    id: "aptos",
+    name: "Aptos",
+    color: "#06f7f7",
+    addressFormat: "move",
+    nativeCurrency: { symbol: "APT", name: "Aptos", decimals: 8 },
+    explorer: {
+      name: "Aptos Explorer",
+      tokenUrl: "https://explorer.aptoslabs.com/coin/{address}?network=mainnet",
+      pairUrl:
+        "https://explorer.aptoslabs.com/account/{address}?network=mainnet",
+    },
+  }),
+];
+
+const chainsById = new Map(CHAINS.map((c) => [c.id, c]));
+
+export function getChainInfo(chainId: string): ChainInfo | undefined {
+  return chainsById.get(chainId.trim().toLowerCase());
+}
+
+/** 未登记的链直接显示 chainId */
+export function chainDisplayName(chainId: string) {
+  return getChainInfo(chainId)?.name ?? chainId;
+}
+
+export function explorerTokenUrl(chainId: string, tokenAddress: string) {
+  return getChainInfo(chainId)?.explorer.tokenUrl.replace(
+    "{address}",
+    encodeURI(tokenAddress),
+  );
+}
+
+export function explorerPairUrl(chainId: string, pairAddress: string) {
+  return getChainInfo(chainId)?.explorer.pairUrl.replace(
+    "{address}",
+    encodeURI(pairAddress),
+  );
+}